@@ -11,15 +11,14 @@
  */
 
 // Legacy imports (for backward compatibility during migration)
+// news, stats and media are imported on first access (see loader.registerNamespaces)
 import trophies from './trophies.json';
 import ui from './ui.json';
 import events from './events.json';
-import news from './news.json';
 import database from './database.json';
-import stats from './stats.json';
 import gameplay from './gameplay.json';
-import media from './media.json';
 import legacy from './legacy.json';
+import { createLocaleBundle } from '../utils/localeBundle';
 
 // New layered structure imports
 import core from './core';
@@ -27,17 +26,17 @@ import { contentFlat } from './content';
 import templates from './templates';
 
 // Merge legacy files (existing behavior)
-const legacyFiles: any[] = [trophies, ui, events, news, database, stats, gameplay, media, legacy];
-const legacyTranslations = legacyFiles.reduce((acc, file) => {
-    Object.keys(file).forEach(key => {
-        if (typeof file[key] === 'object' && file[key] !== null && !Array.isArray(file[key])) {
-            acc[key] = { ...acc[key], ...file[key] };
-        } else {
-            acc[key] = file[key];
-        }
-    });
-    return acc;
-}, {} as any);
+const { translations: legacyTranslations, namespaces } = createLocaleBundle([
+    trophies,
+    ui,
+    events,
+    { namespaces: ['news'], load: () => import('./news.json') },
+    database,
+    { namespaces: ['stats', 'detailedStats', 'careerStats', 'logs', 'history', 'historyExtra', 'analytics'], load: () => import('./stats.json') },
+    gameplay,
+    { namespaces: ['media'], load: () => import('./media.json') },
+    legacy,
+]);
 
 // Final translations: Legacy base + New layered overrides
 // New structure takes precedence to allow gradual migration
@@ -53,4 +52,4 @@ const translations = {
 export default translations;
 
 // Export new structure for direct access
-export { core, contentFlat as content, templates };
+export { core, contentFlat as content, templates, namespaces };
@@ -1,23 +1,23 @@
 import trophies from './trophies.json';
 import ui from './ui.json';
 import events from './events.json';
-import news from './news.json';
 import database from './database.json';
-import stats from './stats.json';
 import gameplay from './gameplay.json';
 import legacy from './legacy.json';
-import media from './media.json';
+import { createLocaleBundle } from '../utils/localeBundle';
 
-const files: any[] = [trophies, ui, events, news, database, stats, gameplay, legacy, media];
-const translations = files.reduce((acc, file) => {
-    Object.keys(file).forEach(key => {
-        if (typeof file[key] === 'object' && file[key] !== null && !Array.isArray(file[key])) {
-            acc[key] = { ...acc[key], ...file[key] };
-        } else {
-            acc[key] = file[key];
-        }
-    });
-    return acc;
-}, {} as any);
+// news, stats and media are imported on first access (see loader.registerNamespaces)
+const { translations, namespaces } = createLocaleBundle([
+    trophies,
+    ui,
+    events,
+    { namespaces: ['news'], load: () => import('./news.json') },
+    database,
+    { namespaces: ['stats', 'detailedStats', 'careerStats', 'logs', 'history', 'historyExtra', 'analytics'], load: () => import('./stats.json') },
+    gameplay,
+    legacy,
+    { namespaces: ['media'], load: () => import('./media.json') },
+]);
 
+export { namespaces };
 export default translations;
\ No newline at end of file
@@ -1,22 +1,22 @@
 import trophies from './trophies.json';
 import ui from './ui.json';
 import events from './events.json';
-import news from './news.json';
 import database from './database.json';
-import stats from './stats.json';
 import gameplay from './gameplay.json';
 import legacy from './legacy.json';
+import { createLocaleBundle } from '../utils/localeBundle';
 
-const files: any[] = [trophies, ui, events, news, database, stats, gameplay, legacy];
-const translations = files.reduce((acc, file) => {
-    Object.keys(file).forEach(key => {
-        if (typeof file[key] === 'object' && file[key] !== null && !Array.isArray(file[key])) {
-            acc[key] = { ...acc[key], ...file[key] };
-        } else {
-            acc[key] = file[key];
-        }
-    });
-    return acc;
-}, {} as any);
+// news, stats are imported on first access (see loader.registerNamespaces)
+const { translations, namespaces } = createLocaleBundle([
+    trophies,
+    ui,
+    events,
+    { namespaces: ['news'], load: () => import('./news.json') },
+    database,
+    { namespaces: ['stats', 'detailedStats', 'careerStats', 'logs', 'history', 'historyExtra', 'analytics'], load: () => import('./stats.json') },
+    gameplay,
+    legacy,
+]);
 
+export { namespaces };
 export default translations;
\ No newline at end of file
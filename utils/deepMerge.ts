@@ -139,4 +139,29 @@ export function setNestedValue<T extends Record<string, unknown>>(
   return result as T;
 }
 
+/**
+ * Removes a nested value from an object using dot notation.
+ * Returns a new object (immutable); missing paths are a no-op.
+ */
+export function deleteNestedValue<T extends Record<string, unknown>>(
+  obj: T,
+  path: string
+): T {
+  const [key, ...rest] = path.split('.');
+
+  if (!(key in obj)) {
+    return obj;
+  }
+
+  const result = { ...obj } as Record<string, unknown>;
+
+  if (rest.length === 0) {
+    delete result[key];
+  } else if (isPlainObject(result[key])) {
+    result[key] = deleteNestedValue(result[key] as Record<string, unknown>, rest.join('.'));
+  }
+
+  return result as T;
+}
+
 export default deepMerge;
@@ -0,0 +1,171 @@
+/**
+ * Translation Diagnostics Collector
+ *
+ * Records missing keys, broken {{ref:}} references and unfilled {variables}
+ * seen at runtime so QA can attach a report to a bug. Reports are kept in
+ * memory and exported as JSON through the StorageAdapter; nothing is sent
+ * over the network.
+ */
+
+import type { StorageAdapter } from './loader';
+
+/**
+ * Kind of problem recorded
+ */
+export type DiagnosticType = 'missingKey' | 'brokenRef' | 'unfilledVariable';
+
+/**
+ * Aggregated record of one problem
+ */
+export interface DiagnosticEntry {
+  type: DiagnosticType;
+  /** Translation key being resolved */
+  key: string;
+  /** Reference path or variable name, for brokenRef / unfilledVariable */
+  detail?: string;
+  language: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  /** Template that contained the problem */
+  template?: string;
+  /** Context of the first occurrence (primitive values only) */
+  sampleContext?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Exported diagnostics report
+ */
+export interface DiagnosticsReport {
+  generatedAt: number;
+  totals: Record<DiagnosticType, number>;
+  entries: DiagnosticEntry[];
+}
+
+// Storage key for exported reports
+export const DIAGNOSTICS_STORAGE_KEY = '@mfcs_diagnostics';
+
+/**
+ * Keeps only primitive context values so reports stay small and serializable
+ */
+function sampleContext(
+  context?: Record<string, unknown>
+): Record<string, string | number | boolean> | undefined {
+  if (!context) {
+    return undefined;
+  }
+
+  const sample: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(context)) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      sample[key] = value;
+    }
+  }
+
+  return Object.keys(sample).length > 0 ? sample : undefined;
+}
+
+/**
+ * In-memory diagnostics collector
+ */
+export class DiagnosticsCollector {
+  private entries: Map<string, DiagnosticEntry> = new Map();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Record one occurrence of a problem
+   * Once maxEntries distinct problems are stored, new ones are dropped
+   * (existing ones keep counting).
+   */
+  record(
+    type: DiagnosticType,
+    key: string,
+    language: string,
+    details: { detail?: string; template?: string; context?: Record<string, unknown> } = {}
+  ): void {
+    const id = [type, language, key, details.detail ?? ''].join('|');
+    const existing = this.entries.get(id);
+    const now = Date.now();
+
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = now;
+      return;
+    }
+
+    if (this.entries.size >= this.maxEntries) {
+      return;
+    }
+
+    this.entries.set(id, {
+      type,
+      key,
+      detail: details.detail,
+      language,
+      count: 1,
+      firstSeen: now,
+      lastSeen: now,
+      template: details.template,
+      sampleContext: sampleContext(details.context),
+    });
+  }
+
+  /**
+   * Get recorded entries, optionally filtered by type, most frequent first
+   */
+  getEntries(type?: DiagnosticType): DiagnosticEntry[] {
+    return Array.from(this.entries.values())
+      .filter(entry => !type || entry.type === type)
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Build a report of everything recorded so far
+   */
+  getReport(): DiagnosticsReport {
+    const totals: Record<DiagnosticType, number> = {
+      missingKey: 0,
+      brokenRef: 0,
+      unfilledVariable: 0,
+    };
+
+    for (const entry of this.entries.values()) {
+      totals[entry.type] += entry.count;
+    }
+
+    return {
+      generatedAt: Date.now(),
+      totals,
+      entries: this.getEntries(),
+    };
+  }
+
+  /**
+   * Save the report as JSON and return it
+   */
+  async export(
+    storage: StorageAdapter,
+    key: string = DIAGNOSTICS_STORAGE_KEY
+  ): Promise<string> {
+    const json = JSON.stringify(this.getReport(), null, 2);
+    await storage.setItem(key, json);
+    return json;
+  }
+
+  /**
+   * Forget everything recorded
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export default DiagnosticsCollector;
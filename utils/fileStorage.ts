@@ -0,0 +1,68 @@
+/**
+ * Filesystem Storage Adapter (Node only)
+ *
+ * Stores each key as a file in a directory, for tooling and tests.
+ * Not exported from ./index so app bundles never depend on 'fs';
+ * import it directly from 'utils/fileStorage'.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { StorageAdapter } from './loader';
+
+/**
+ * Storage backed by one file per key
+ * Writes go through a temporary file and a rename, so a crash never
+ * leaves a half-written value behind.
+ */
+export class FileStorage implements StorageAdapter {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * File path for a key (keys are URI-encoded to be filename-safe)
+   */
+  private getPath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.getPath(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const file = this.getPath(key);
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temp, value, 'utf8');
+    await fs.rename(temp, file);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true });
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+  }
+}
+
+export default FileStorage;
@@ -0,0 +1,236 @@
+/**
+ * Placeholder Formatting
+ *
+ * Format hints inside {variable} placeholders, resolved with
+ * Intl.NumberFormat for the active language:
+ * - {goals, number}          grouped number (15.000.000 in pt)
+ * - {rating, number, 1}      fixed fraction digits (7,8 in pt)
+ * - {share, percent}         0.25 → 25 %
+ * - {fee, compact}           compact notation (15 M)
+ * - {amount, currency, EUR}  currency; compact from one million up
+ *   (add ', full' or ', compact' to force either form, or ', millions'
+ *   for amounts given in millions: 15 → €15M)
+ * - {assists, ordinal}       21st, 22nd (suffixes from the bundle's
+ *   common.ordinal table; add a variant such as ', feminine' for 21ª)
+ * - {country, locative}      a grammatical case of a name (see inflection.ts)
+ *
+ * Formatters are cached per language and options.
+ */
+
+import { getNestedValue } from './deepMerge';
+import { getPluralCategory } from './plurals';
+import { GRAMMATICAL_CASES, GrammaticalCase, inflect } from './inflection';
+
+/**
+ * Formats a value for a placeholder hint
+ * Returns undefined when the hint does not apply (unknown type, or a value
+ * that is not a number), so the caller can fall back to String(value).
+ * `translations` is the active bundle, for formatters that read locale data.
+ */
+export type PlaceholderFormatter = (
+  value: unknown,
+  args: string[],
+  language: string,
+  translations: Record<string, unknown>
+) => string | undefined;
+
+// Amounts from which currencies switch to compact notation
+const COMPACT_CURRENCY_THRESHOLD = 1_000_000;
+
+// Ordinal suffixes in the bundle, keyed by ordinal plural category
+// ({ one: '{n}st', two: '{n}nd', few: '{n}rd', other: '{n}th' }); other keys
+// are variants for grammatical gender that only list the categories that differ
+export const ORDINAL_TABLE_KEY = 'common.ordinal';
+
+// Intl.NumberFormat instances per language and options
+const numberFormatCache = new Map<string, Intl.NumberFormat | null>();
+
+/**
+ * Gets a (cached) number formatter, or null if Intl.NumberFormat rejects the options
+ */
+export function getNumberFormat(
+  language: string,
+  options: Intl.NumberFormatOptions = {}
+): Intl.NumberFormat | null {
+  const cacheKey = `${language}|${JSON.stringify(options)}`;
+  let format = numberFormatCache.get(cacheKey);
+
+  if (format === undefined) {
+    try {
+      format = new Intl.NumberFormat(language, options);
+    } catch {
+      // Unknown currency code or unsupported option on this platform
+      format = null;
+    }
+    numberFormatCache.set(cacheKey, format);
+  }
+
+  return format;
+}
+
+/**
+ * Clears cached formatters (e.g., in tests)
+ */
+export function clearFormatCache(): void {
+  numberFormatCache.clear();
+}
+
+/**
+ * Reads a number from a number or numeric string
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+/**
+ * Parses a fraction digits argument ('1' → 1)
+ */
+function toDigits(arg: string | undefined): number | undefined {
+  const digits = arg === undefined ? NaN : parseInt(arg, 10);
+  return digits >= 0 && digits <= 20 ? digits : undefined;
+}
+
+/**
+ * Formats a number with the given options
+ */
+function formatNumber(
+  value: unknown,
+  language: string,
+  options: Intl.NumberFormatOptions
+): string | undefined {
+  const number = toNumber(value);
+  if (number === undefined) {
+    return undefined;
+  }
+  return getNumberFormat(language, options)?.format(number);
+}
+
+/**
+ * Reads a pattern from an ordinal table entry
+ */
+function getOrdinalPattern(table: unknown, key: string): string | undefined {
+  const pattern = table && typeof table === 'object'
+    ? (table as Record<string, unknown>)[key]
+    : undefined;
+  return typeof pattern === 'string' ? pattern : undefined;
+}
+
+/**
+ * Formats an ordinal with the bundle's suffix table
+ * Lookup order: variant[category], table[category], variant.other,
+ * table.other, table.fallback.
+ */
+function formatOrdinal(
+  value: unknown,
+  variant: string | undefined,
+  language: string,
+  translations: Record<string, unknown>
+): string | undefined {
+  const number = toNumber(value);
+  if (number === undefined || !Number.isInteger(number)) {
+    return undefined;
+  }
+
+  const table = getNestedValue(translations, ORDINAL_TABLE_KEY);
+  const variantTable = variant ? getNestedValue(translations, `${ORDINAL_TABLE_KEY}.${variant}`) : undefined;
+  const category = getPluralCategory(number, language, 'ordinal');
+  const pattern = getOrdinalPattern(variantTable, category)
+    ?? getOrdinalPattern(table, category)
+    ?? getOrdinalPattern(variantTable, 'other')
+    ?? getOrdinalPattern(table, 'other')
+    ?? getOrdinalPattern(table, 'fallback');
+
+  const formatted = formatNumber(number, language, {});
+  return pattern && formatted !== undefined ? pattern.replace('{n}', formatted) : formatted;
+}
+
+/**
+ * Creates the formatter for a grammatical case hint
+ */
+function caseFormatter(grammaticalCase: GrammaticalCase): PlaceholderFormatter {
+  return (value, _args, language, translations) =>
+    typeof value === 'string' ? inflect(value, grammaticalCase, language, translations) : undefined;
+}
+
+/**
+ * Formatters by hint type
+ * A Map, so only registered types match (not inherited keys such as 'toString').
+ */
+const formatters = new Map<string, PlaceholderFormatter>([
+  ['number', (value, [digits], language) => {
+    const fixed = toDigits(digits);
+    return formatNumber(value, language, fixed === undefined
+      ? {}
+      : { minimumFractionDigits: fixed, maximumFractionDigits: fixed });
+  }],
+
+  ['percent', (value, [digits], language) => {
+    const fixed = toDigits(digits);
+    return formatNumber(value, language, fixed === undefined
+      ? { style: 'percent' }
+      : { style: 'percent', minimumFractionDigits: fixed, maximumFractionDigits: fixed });
+  }],
+
+  ['compact', (value, _args, language) =>
+    formatNumber(value, language, { notation: 'compact', maximumFractionDigits: 1 })],
+
+  ['currency', (value, [code, mode], language) => {
+    if (!code) {
+      return undefined;
+    }
+
+    const currency = code.toUpperCase();
+    const millions = mode === 'millions';
+    const amount = toNumber(value);
+    const number = millions && amount !== undefined ? amount * 1_000_000 : amount;
+
+    // Preformatted amounts (e.g., '1.5M') keep the locale's symbol placement
+    if (number === undefined) {
+      const parts = getNumberFormat(language, { style: 'currency', currency, maximumFractionDigits: 0 })?.formatToParts(0);
+      return parts
+        ?.map(part => (part.type === 'integer' ? String(value) : part.value))
+        .join('');
+    }
+
+    const compact = mode === 'compact' || millions
+      || (mode !== 'full' && Math.abs(number) >= COMPACT_CURRENCY_THRESHOLD);
+
+    return formatNumber(number, language, compact
+      ? { style: 'currency', currency, notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 1 }
+      : { style: 'currency', currency, minimumFractionDigits: Number.isInteger(number) ? 0 : 2 });
+  }],
+
+  ['ordinal', (value, [variant], language, translations) =>
+    formatOrdinal(value, variant, language, translations)],
+
+  ...GRAMMATICAL_CASES.map((grammaticalCase): [string, PlaceholderFormatter] => [grammaticalCase, caseFormatter(grammaticalCase)]),
+]);
+
+/**
+ * Registers a formatter for a hint type (e.g., {date, relative})
+ */
+export function registerFormatter(type: string, formatter: PlaceholderFormatter): void {
+  formatters.set(type, formatter);
+}
+
+/**
+ * Formats a value for a placeholder hint
+ * Returns undefined for unknown types or values the type cannot format.
+ */
+export function formatPlaceholder(
+  value: unknown,
+  type: string,
+  args: string[],
+  language: string,
+  translations: Record<string, unknown> = {}
+): string | undefined {
+  return formatters.get(type)?.(value, args, language, translations);
+}
+
+export default formatPlaceholder;
@@ -2,17 +2,27 @@
  * Localization Utilities - Main Export
  */
 
-export { deepMerge, deepMergeImmutable, getNestedValue, setNestedValue } from './deepMerge';
+export {
+  deepMerge,
+  deepMergeImmutable,
+  getNestedValue,
+  setNestedValue,
+  deleteNestedValue,
+} from './deepMerge';
 
 export {
   interpolate,
   resolveReferences,
   resolveVariables,
   resolvePlurals,
+  resolveSelects,
   interpolateBatch,
   createInterpolator,
   clearInterpolationCache,
   getCacheStats,
+  InterpolationCache,
+  type InterpolationIssue,
+  type InterpolationIssueHandler,
 } from './interpolate';
 
 export {
@@ -32,17 +42,159 @@ export {
   createPatchTemplate,
   type ValidationError,
   type ValidationResult,
+  type ValidationOptions,
   type PatchMetadata,
   type UniversalPatch,
 } from './schema';
 
+export {
+  normalizeLanguageTag,
+  isValidLanguageTag,
+  getParentLanguage,
+  getLanguageLineage,
+} from './locale';
+
+export {
+  applyDelta,
+  isRemoteManifest,
+  isRemoteDelta,
+  isRetryableStatus,
+  getBackoffDelay,
+  RemoteFetchError,
+  type RemoteManifest,
+  type RemoteLanguageEntry,
+  type RemoteDelta,
+  type RemoteFetchFailure,
+} from './remote';
+
+export {
+  canonicalJson,
+  computeBundleDigest,
+  webCryptoAdapter,
+  type CryptoAdapter,
+  type IntegrityConfig,
+} from './integrity';
+
+export {
+  formatPlaceholder,
+  getNumberFormat,
+  registerFormatter,
+  clearFormatCache,
+  ORDINAL_TABLE_KEY,
+  type PlaceholderFormatter,
+} from './format';
+
+export {
+  inflect,
+  isGrammaticalCase,
+  registerInflectionRule,
+  GRAMMATICAL_CASES,
+  INFLECTIONS_NAMESPACE,
+  type GrammaticalCase,
+  type InflectionRule,
+} from './inflection';
+
+export {
+  lintTemplates,
+  findGenderedPronouns,
+  findOrdinalSuffixes,
+  type TemplateLintRule,
+  type TemplateLintIssue,
+} from './templateLint';
+
+export {
+  getPluralRules,
+  getPluralCategory,
+  selectPluralForm,
+  isPluralCategory,
+  PLURAL_CATEGORIES,
+  type PluralCategory,
+} from './plurals';
+
+export {
+  lookupTemplate,
+  pickVariant,
+  isVariantSet,
+  handleMissingKey,
+  resolvePluralKey,
+  type MissingKeyPolicy,
+  type TranslateOptions,
+  type TranslateFunction,
+} from './translate';
+
+export {
+  DiagnosticsCollector,
+  DIAGNOSTICS_STORAGE_KEY,
+  type DiagnosticType,
+  type DiagnosticEntry,
+  type DiagnosticsReport,
+} from './diagnostics';
+
+export {
+  parseVersion,
+  compareVersions,
+  satisfies,
+  isValidRange,
+  type SemVer,
+} from './semver';
+
+export {
+  diffTranslations,
+  createPatchFromEdits,
+  type PatchExportResult,
+} from './patchExport';
+
+export {
+  readArchive,
+  unpackPatchPack,
+  type InflateFunction,
+  type PatchPackOptions,
+  type PatchPackResult,
+} from './patchPack';
+
+export {
+  MemoryStorage,
+  LocalStorageAdapter,
+  PrefixedStorage,
+  MigratingStorage,
+  migrateStorage,
+  type WebStorage,
+  type StorageMigration,
+} from './storage';
+
 export {
   TranslationLoader,
+  LoaderRegistry,
   initializeLoader,
   getLoader,
+  getLoaderRegistry,
+  getPatchId,
+  resolvePatchId,
   type StorageAdapter,
   type FetchAdapter,
   type LoaderConfig,
   type TranslationSource,
   type LoadedTranslations,
+  type InstalledPatch,
+  type PatchInfo,
+  type PatchHistoryEntry,
+  type LoaderEvent,
+  type NamespaceLoader,
+  type NamespaceStats,
+  type LayerValue,
+  type KeyExplanation,
+  type PatchConflict,
+  type ConflictReport,
+  type PreviewChange,
+  type PatchPreview,
+  type LoaderListener,
+  type SharedLoaderState,
 } from './loader';
+
+export {
+  createLocaleBundle,
+  mergeLocaleFiles,
+  type LocaleFile,
+  type LazyLocaleFile,
+  type LocaleBundle,
+} from './localeBundle';
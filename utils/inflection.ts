@@ -0,0 +1,204 @@
+/**
+ * Grammatical Case Inflection
+ *
+ * Names (countries, leagues, competitions, teams, players) are passed to
+ * templates in the nominative. A case hint picks the inflected form:
+ * "в {country, locative}" → "в Бразилии", "{team, dative}" → "Galatasaray'a".
+ *
+ * Forms are looked up by the displayed name in the bundle's `inflections`
+ * namespace, which patches can extend for the names they add:
+ *   "inflections": { "Бразилия": { "genitive": "Бразилии", "locative": "Бразилии" } }
+ *
+ * When a form is missing, the language's rule is used (tr: suffixes with
+ * vowel harmony; ar: the attached clitics لـ and بـ), and otherwise the
+ * name is kept unchanged.
+ */
+
+/**
+ * Grammatical case of a name
+ */
+export type GrammaticalCase =
+  | 'nominative'
+  | 'genitive'
+  | 'dative'
+  | 'accusative'
+  | 'instrumental'
+  | 'locative'
+  | 'ablative';
+
+export const GRAMMATICAL_CASES: GrammaticalCase[] = [
+  'nominative',
+  'genitive',
+  'dative',
+  'accusative',
+  'instrumental',
+  'locative',
+  'ablative',
+];
+
+// Namespace holding inflected forms, keyed by displayed name
+export const INFLECTIONS_NAMESPACE = 'inflections';
+
+/**
+ * Builds the form of a name for a case, or undefined if the rule has none
+ */
+export type InflectionRule = (name: string, grammaticalCase: GrammaticalCase) => string | undefined;
+
+// Turkish vowels and the consonants that harden a following d to t
+const TR_BACK_VOWELS = 'aıou';
+const TR_VOWELS = 'aıoueiöü';
+const TR_VOICELESS = 'çfhkpsşt';
+const TR_FOUR_WAY: Record<string, string> = { a: 'ı', ı: 'ı', o: 'u', u: 'u', e: 'i', i: 'i', ö: 'ü', ü: 'ü' };
+
+// Spoken names of letters, for abbreviations read letter by letter (PSG → pe-se-ge)
+const TR_LETTER_NAMES: Record<string, string> = {
+  b: 'be', c: 'ce', ç: 'çe', d: 'de', f: 'fe', g: 'ge', ğ: 'ge', h: 'he', j: 'je', k: 'ke', l: 'le', m: 'me',
+  n: 'ne', p: 'pe', q: 'ku', r: 're', s: 'se', ş: 'şe', t: 'te', v: 've', w: 've', x: 'iks', y: 'ye', z: 'ze',
+};
+
+// Spoken digits and tens, for names ending in a number (Schalke 04 → dört)
+const TR_DIGITS = ['sıfır', 'bir', 'iki', 'üç', 'dört', 'beş', 'altı', 'yedi', 'sekiz', 'dokuz'];
+const TR_TENS = ['', 'on', 'yirmi', 'otuz', 'kırk', 'elli', 'altmış', 'yetmiş', 'seksen', 'doksan'];
+
+/**
+ * Gets the last spoken word of a number (1860 → altmış, 04 → dört, 2000 → bin)
+ */
+function turkishNumberWord(digits: string): string {
+  const number = digits.replace(/^0+(?=\d)/, '');
+  const zeros = number === '0' ? 0 : number.length - number.replace(/0+$/, '').length;
+  if (zeros === 0) {
+    return TR_DIGITS[Number(number[number.length - 1])];
+  }
+  if (zeros === 1) {
+    return TR_TENS[Number(number[number.length - 2])];
+  }
+  return zeros === 2 ? 'yüz' : zeros < 6 ? 'bin' : zeros < 9 ? 'milyon' : 'milyar';
+}
+
+/**
+ * Gets the letters suffixes follow: those of the name, or of how its end is
+ * read when it ends in a number or an abbreviation without vowels
+ */
+function turkishSpokenEnding(name: string): string {
+  const number = /(\d+)$/.exec(name.trim());
+  if (number) {
+    return turkishNumberWord(number[1]);
+  }
+
+  const letters = name.toLocaleLowerCase('tr').replace(/[^a-zçğıöşüâîûqwx]/g, '');
+  const lastWord = name.trim().split(/\s+/).pop()?.toLocaleLowerCase('tr') ?? '';
+  if (lastWord && !Array.from(lastWord).some(letter => TR_VOWELS.includes(letter))) {
+    return TR_LETTER_NAMES[letters[letters.length - 1]] ?? letters;
+  }
+  return letters;
+}
+
+/**
+ * Turkish proper nouns take case suffixes after an apostrophe, following
+ * the last vowel (harmony) and last letter (buffer consonant, d/t) as read
+ */
+function inflectTurkish(name: string, grammaticalCase: GrammaticalCase): string | undefined {
+  const letters = turkishSpokenEnding(name);
+  const lastVowel = Array.from(letters.replace(/â/g, 'a').replace(/[îû]/g, 'i'))
+    .reverse()
+    .find(letter => TR_VOWELS.includes(letter));
+  if (!lastVowel) {
+    return undefined;
+  }
+
+  const last = letters[letters.length - 1];
+  const endsInVowel = TR_VOWELS.includes(last);
+  const twoWay = TR_BACK_VOWELS.includes(lastVowel) ? 'a' : 'e';
+  const fourWay = TR_FOUR_WAY[lastVowel];
+  const d = TR_VOICELESS.includes(last) ? 't' : 'd';
+
+  const suffixes: Partial<Record<GrammaticalCase, string>> = {
+    genitive: endsInVowel ? `n${fourWay}n` : `${fourWay}n`,
+    dative: endsInVowel ? `y${twoWay}` : twoWay,
+    accusative: endsInVowel ? `y${fourWay}` : fourWay,
+    instrumental: endsInVowel ? `yl${twoWay}` : `l${twoWay}`,
+    locative: `${d}${twoWay}`,
+    ablative: `${d}${twoWay}n`,
+  };
+
+  const suffix = suffixes[grammaticalCase];
+  return suffix ? `${name}'${suffix}` : undefined;
+}
+
+/**
+ * Arabic marks the dative and instrumental with attached prepositions
+ * (لـ, بـ); other cases are not written without diacritics
+ */
+function inflectArabic(name: string, grammaticalCase: GrammaticalCase): string | undefined {
+  const clitic = grammaticalCase === 'dative' ? 'ل' : grammaticalCase === 'instrumental' ? 'ب' : undefined;
+  if (!clitic) {
+    return undefined;
+  }
+
+  if (!/^[\u0600-\u06FF]/.test(name)) {
+    // Names in Latin script keep the preposition separate
+    return `${clitic}ـ ${name}`;
+  }
+  if (name.startsWith('ال')) {
+    // لـ + الـ → لل (the alif is dropped)
+    return clitic === 'ل' ? `ل${name.slice(1)}` : `ب${name}`;
+  }
+  return `${clitic}${name}`;
+}
+
+// Rules per base language
+const inflectionRules = new Map<string, InflectionRule>([
+  ['tr', inflectTurkish],
+  ['ar', inflectArabic],
+]);
+
+/**
+ * Registers the rule used when a language has no form for a name
+ */
+export function registerInflectionRule(language: string, rule: InflectionRule): void {
+  inflectionRules.set(language.split(/[-_]/)[0].toLowerCase(), rule);
+}
+
+/**
+ * Checks if a string is a grammatical case
+ */
+export function isGrammaticalCase(value: string): value is GrammaticalCase {
+  return (GRAMMATICAL_CASES as string[]).includes(value);
+}
+
+/**
+ * Gets the form of a name for a case
+ * Lookup order: the bundle's inflections, the language's rule, the name itself.
+ *
+ * @param name - Displayed (nominative) name
+ * @param grammaticalCase - Case to inflect for
+ * @param language - Active language
+ * @param translations - Bundle holding the inflections namespace
+ */
+export function inflect(
+  name: string,
+  grammaticalCase: GrammaticalCase,
+  language: string,
+  translations: Record<string, unknown> = {}
+): string {
+  if (grammaticalCase === 'nominative') {
+    return name;
+  }
+
+  // Names may contain dots, so the table is indexed directly
+  const table = translations[INFLECTIONS_NAMESPACE];
+  const forms = table && typeof table === 'object'
+    ? (table as Record<string, unknown>)[name]
+    : undefined;
+  const form = forms && typeof forms === 'object'
+    ? (forms as Record<string, unknown>)[grammaticalCase]
+    : undefined;
+  if (typeof form === 'string') {
+    return form;
+  }
+
+  const rule = inflectionRules.get(language.split(/[-_]/)[0].toLowerCase());
+  return rule?.(name, grammaticalCase) ?? name;
+}
+
+export default inflect;
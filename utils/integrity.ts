@@ -0,0 +1,124 @@
+/**
+ * Integrity Verification for Remote Content
+ *
+ * Remote bundles are verified before they are cached:
+ * - manifest.json carries a detached ECDSA P-256 / SHA-256 signature
+ *   (manifest.json.sig, base64) checked against a pinned public key;
+ *   deltas are signed the same way ({delta}.sig) and checked before
+ *   they are applied
+ * - each bundle is checked against the SHA-256 digest listed in the
+ *   manifest and/or a list of pinned digests
+ *
+ * Digests are computed over the canonical JSON form of a bundle (object
+ * keys sorted, no whitespace) so full downloads and delta updates produce
+ * the same digest for the same content.
+ */
+
+/**
+ * Crypto interface for cross-platform compatibility
+ * The default implementation uses WebCrypto (browsers, Node 18+);
+ * provide your own on platforms without crypto.subtle.
+ */
+export interface CryptoAdapter {
+  /** Returns the lowercase hex SHA-256 digest of a UTF-8 string */
+  sha256(data: string): Promise<string>;
+
+  /** Verifies a base64 signature of `data` with a base64 SPKI public key */
+  verify(data: string, signature: string, publicKey: string): Promise<boolean>;
+}
+
+/**
+ * Integrity options for the remote layer
+ */
+export interface IntegrityConfig {
+  /**
+   * Base64 SPKI ECDSA P-256 public key used to verify manifest.json.sig and delta signatures
+   * When set, unsigned manifests and manifest entries without a hash are rejected.
+   */
+  publicKey?: string;
+
+  /** Accepted bundle digests (SHA-256 hex); when set, any other bundle is rejected */
+  pinnedHashes?: string[];
+
+  /** Crypto implementation (default: WebCrypto) */
+  crypto?: CryptoAdapter;
+}
+
+/**
+ * Serializes a value with sorted object keys and no whitespace
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Decodes a base64 string (or PEM block) to bytes
+ */
+function base64ToBytes(base64: string): ArrayBuffer {
+  const binary = atob(base64.replace(/-----[^-]+-----|\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Encodes bytes as lowercase hex
+ */
+function bytesToHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * WebCrypto-backed implementation of CryptoAdapter
+ */
+export const webCryptoAdapter: CryptoAdapter = {
+  async sha256(data: string): Promise<string> {
+    const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(data));
+    return bytesToHex(digest);
+  },
+
+  async verify(data: string, signature: string, publicKey: string): Promise<boolean> {
+    const key = await globalThis.crypto.subtle.importKey(
+      'spki',
+      base64ToBytes(publicKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+
+    return globalThis.crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      base64ToBytes(signature),
+      new TextEncoder().encode(data)
+    );
+  },
+};
+
+/**
+ * Computes the canonical digest of a bundle
+ */
+export async function computeBundleDigest(
+  bundle: unknown,
+  crypto: CryptoAdapter = webCryptoAdapter
+): Promise<string> {
+  return crypto.sha256(canonicalJson(bundle));
+}
+
+export default computeBundleDigest;
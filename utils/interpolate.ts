@@ -6,20 +6,44 @@
  */
 
 import { getNestedValue } from './deepMerge';
+import { PluralCategory, isPluralCategory, selectPluralForm } from './plurals';
+import { formatPlaceholder } from './format';
 
 // Pattern for reference placeholders: {{ref:path.to.key}}
 const REF_PATTERN = /\{\{ref:([a-zA-Z0-9_.]+)\}\}/g;
 
-// Pattern for variable placeholders: {variableName}
-const VAR_PATTERN = /\{(\w+)\}/g;
+// Pattern for variable placeholders: {variableName} or {variableName, type, ...args}
+const VAR_PATTERN = /\{(\w+)((?:\s*,\s*[\w.-]+)*)\s*\}/g;
 
-// Pattern for plural/conditional: {{plural:count|one|many}}
-const PLURAL_PATTERN = /\{\{plural:(\w+)\|([^|]+)\|([^}]+)\}\}/g;
+// Pattern for selects: {{select:gender|male:...|female:...|other:...}} or {{select:gender|he|she|they}}
+// (branches may contain {variables})
+const SELECT_PATTERN = /\{\{select:(\w+)\|((?:[^{}]|\{\w+[^{}]*\})*)\}\}/g;
+
+// Positional branches of the select shorthand
+const GENDER_BRANCHES = ['male', 'female', 'other'];
+
+// Pattern for plurals: {{plural:count|one|many}} or {{plural:count|one:...|few:...|other:...}}
+// (forms may contain {variables})
+const PLURAL_PATTERN = /\{\{plural:(\w+)\|((?:[^{}]|\{\w+[^{}]*\})*)\}\}/g;
+
+/**
+ * Problem found while resolving a template
+ */
+export type InterpolationIssue =
+  | { type: 'brokenRef'; path: string; template: string }
+  | { type: 'unfilledVariable'; name: string; template: string };
+
+/**
+ * Receives interpolation issues (e.g., a diagnostics collector)
+ */
+export type InterpolationIssueHandler = (issue: InterpolationIssue) => void;
 
 /**
  * LRU Cache implementation for resolved strings
+ * Results depend on the translations used for {{ref:}} lookups, so each
+ * set of translations (e.g., each loader) should have its own cache.
  */
-class InterpolationCache {
+export class InterpolationCache {
   private cache: Map<string, string>;
   private readonly maxSize: number;
 
@@ -31,17 +55,17 @@ class InterpolationCache {
   /**
    * Generates a cache key from template and context
    */
-  private generateKey(template: string, context: Record<string, unknown>): string {
+  private generateKey(template: string, context: Record<string, unknown>, language: string): string {
     // Use a hash of context values for the key
     const contextHash = Object.entries(context)
       .sort(([a], [b]) => a.localeCompare(b))
       .map(([k, v]) => `${k}:${String(v)}`)
       .join('|');
-    return `${template}::${contextHash}`;
+    return `${language}::${template}::${contextHash}`;
   }
 
-  get(template: string, context: Record<string, unknown>): string | undefined {
-    const key = this.generateKey(template, context);
+  get(template: string, context: Record<string, unknown>, language: string = ''): string | undefined {
+    const key = this.generateKey(template, context, language);
     const value = this.cache.get(key);
     
     if (value !== undefined) {
@@ -53,8 +77,8 @@ class InterpolationCache {
     return value;
   }
 
-  set(template: string, context: Record<string, unknown>, value: string): void {
-    const key = this.generateKey(template, context);
+  set(template: string, context: Record<string, unknown>, value: string, language: string = ''): void {
+    const key = this.generateKey(template, context, language);
     
     // Remove oldest entries if at capacity
     if (this.cache.size >= this.maxSize) {
@@ -74,6 +98,10 @@ class InterpolationCache {
   get size(): number {
     return this.cache.size;
   }
+
+  get capacity(): number {
+    return this.maxSize;
+  }
 }
 
 // Global cache instance
@@ -100,11 +128,13 @@ function getCompiledPattern(pattern: string): RegExp {
  * 
  * @param template - String containing reference placeholders
  * @param translations - Full translations object to look up references
+ * @param onIssue - Called for each reference that cannot be resolved
  * @returns String with references resolved
  */
 export function resolveReferences(
   template: string,
-  translations: Record<string, unknown>
+  translations: Record<string, unknown>,
+  onIssue?: InterpolationIssueHandler
 ): string {
   if (!template.includes('{{ref:')) {
     return template;
@@ -114,10 +144,12 @@ export function resolveReferences(
     const value = getNestedValue(translations, path);
     if (value === undefined || value === null) {
       console.warn(`[i18n] Reference not found: ${path}`);
+      onIssue?.({ type: 'brokenRef', path, template });
       return `[${path}]`;
     }
     if (typeof value !== 'string') {
       console.warn(`[i18n] Reference is not a string: ${path}`);
+      onIssue?.({ type: 'brokenRef', path, template });
       return `[${path}]`;
     }
     return value;
@@ -126,46 +158,126 @@ export function resolveReferences(
 
 /**
  * Resolves {variable} placeholders in a template
+ * Placeholders may carry a format hint, formatted for the language:
+ * {amount, currency, EUR}, {rating, number, 1}, {share, percent}, {fee, compact},
+ * {assists, ordinal}
  * 
  * @param template - String containing variable placeholders
  * @param context - Object with variable values
+ * @param onIssue - Called for each placeholder left unfilled
+ * @param language - Language used by format hints (default: 'en')
+ * @param translations - Bundle with locale data for format hints (e.g., ordinal suffixes)
  * @returns String with variables resolved
  */
 export function resolveVariables(
   template: string,
-  context: Record<string, unknown>
+  context: Record<string, unknown>,
+  onIssue?: InterpolationIssueHandler,
+  language: string = 'en',
+  translations: Record<string, unknown> = {}
 ): string {
   if (!template.includes('{')) {
     return template;
   }
 
-  return template.replace(VAR_PATTERN, (match, key: string) => {
+  return template.replace(VAR_PATTERN, (match, key: string, hint: string) => {
     const value = context[key];
     if (value === undefined || value === null) {
       // Keep original placeholder if value not provided
+      onIssue?.({ type: 'unfilledVariable', name: key, template });
       return match;
     }
+    if (hint) {
+      const [type, ...args] = hint.split(',').map(part => part.trim()).filter(Boolean);
+      const formatted = formatPlaceholder(value, type, args, language, translations);
+      if (formatted !== undefined) {
+        return formatted;
+      }
+    }
     return String(value);
   });
 }
 
 /**
- * Resolves {{plural:count|singular|plural}} patterns
+ * Resolves select patterns (e.g., grammatical gender)
+ * - {{select:gender|male:he|female:she|other:they}}: the branch named by
+ *   the context value, falling back to 'other'
+ * - {{select:gender|he|she|they}}: shorthand for male / female / other
+ *   (with fewer branches, the last one is also used for other values)
+ * 
+ * @param template - String containing select placeholders
+ * @param context - Object with selector values
+ * @returns String with selects resolved
+ */
+export function resolveSelects(
+  template: string,
+  context: Record<string, unknown>
+): string {
+  if (!template.includes('{{select:')) {
+    return template;
+  }
+
+  return template.replace(SELECT_PATTERN, (match, key: string, body: string) => {
+    const value = context[key] === undefined || context[key] === null ? '' : String(context[key]);
+    const options = body.split('|');
+    const branches: Record<string, string> = {};
+
+    if (options.every(option => /^\w+:/.test(option))) {
+      for (const option of options) {
+        const separator = option.indexOf(':');
+        branches[option.slice(0, separator)] = option.slice(separator + 1);
+      }
+    } else {
+      options.forEach((option, index) => {
+        branches[GENDER_BRANCHES[index] ?? String(index)] = option;
+      });
+      // A shorthand without a third branch falls back to its last one
+      if (branches.other === undefined) {
+        branches.other = options[options.length - 1];
+      }
+    }
+
+    return branches[value] ?? branches.other ?? match;
+  });
+}
+
+/**
+ * Resolves plural patterns
+ * - {{plural:count|singular|plural}}: singular when count is 1
+ * - {{plural:count|one:...|few:...|many:...|other:...}}: CLDR categories
+ *   for the language, falling back to 'other'
  * 
  * @param template - String containing plural placeholders
  * @param context - Object with count values
+ * @param language - Language whose plural rules apply (default: 'en')
  * @returns String with plurals resolved
  */
 export function resolvePlurals(
   template: string,
-  context: Record<string, unknown>
+  context: Record<string, unknown>,
+  language: string = 'en'
 ): string {
   if (!template.includes('{{plural:')) {
     return template;
   }
 
-  return template.replace(PLURAL_PATTERN, (match, countKey, singular, plural) => {
+  return template.replace(PLURAL_PATTERN, (match, countKey: string, body: string) => {
     const count = context[countKey];
+    const options = body.split('|');
+
+    // Category form
+    if (options.every(option => isPluralCategory(option.split(':')[0].trim()) && option.includes(':'))) {
+      const forms: Partial<Record<PluralCategory, string>> = {};
+      for (const option of options) {
+        const separator = option.indexOf(':');
+        forms[option.slice(0, separator).trim() as PluralCategory] = option.slice(separator + 1);
+      }
+      const form = typeof count === 'number' ? selectPluralForm(forms, count, language) : forms.other;
+      return form ?? match;
+    }
+
+    // Positional form
+    const [singular, plural = singular] = options;
     if (typeof count !== 'number') {
       return singular;
     }
@@ -179,41 +291,53 @@ export function resolvePlurals(
  * @param template - Template string with placeholders
  * @param context - Variables to interpolate
  * @param translations - Full translations for reference resolution
- * @param useCache - Whether to use caching (default: true)
+ * @param useCache - Whether to use caching, or the cache to use (default: true, the global cache)
+ * @param onIssue - Called for broken references and unfilled variables
+ * @param language - Language for plural rules and format hints (default: 'en')
  * @returns Fully resolved string
  */
 export function interpolate(
   template: string,
   context: Record<string, unknown> = {},
   translations: Record<string, unknown> = {},
-  useCache: boolean = true
+  useCache: boolean | InterpolationCache = true,
+  onIssue?: InterpolationIssueHandler,
+  language: string = 'en'
 ): string {
   if (!template || typeof template !== 'string') {
     return template ?? '';
   }
 
+  const cache = useCache === true ? globalCache : useCache || null;
+
   // Check cache first
-  if (useCache) {
-    const cached = globalCache.get(template, context);
+  if (cache) {
+    const cached = cache.get(template, context, language);
     if (cached !== undefined) {
       return cached;
     }
   }
 
   let result = template;
+  let hasIssues = false;
+  const reportIssue: InterpolationIssueHandler = (issue) => {
+    hasIssues = true;
+    onIssue?.(issue);
+  };
 
   // Step 1: Resolve references ({{ref:...}})
-  result = resolveReferences(result, translations);
+  result = resolveReferences(result, translations, reportIssue);
 
-  // Step 2: Resolve plurals ({{plural:...}})
-  result = resolvePlurals(result, context);
+  // Step 2: Resolve selects ({{select:...}}), then plurals ({{plural:...}})
+  result = resolveSelects(result, context);
+  result = resolvePlurals(result, context, language);
 
   // Step 3: Resolve variables ({name}, {team}, etc.)
-  result = resolveVariables(result, context);
+  result = resolveVariables(result, context, reportIssue, language, translations);
 
-  // Cache the result
-  if (useCache) {
-    globalCache.set(template, context, result);
+  // Cache the result (broken results are not cached so every use is reported)
+  if (cache && !hasIssues) {
+    cache.set(template, context, result, language);
   }
 
   return result;
@@ -255,7 +379,7 @@ export function clearInterpolationCache(): void {
 export function getCacheStats(): { size: number; maxSize: number } {
   return {
     size: globalCache.size,
-    maxSize: 2000
+    maxSize: globalCache.capacity
   };
 }
 
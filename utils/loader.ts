@@ -4,15 +4,38 @@
  * Implements a priority-based loading system:
  * 1. Local Patch (highest priority) - Community modifications
  * 2. Remote (GitHub CDN) - Official updates
- * 3. Local Bundle (fallback) - Always available
+ * 3. Local Bundles (fallback) - Always available, merged along the
+ *    language's fallback chain (e.g., pt → es → en)
  * 
- * Supports Universal Patches with language-specific overrides.
+ * Supports a stack of Universal Patches with language-specific overrides.
+ * Installed patches can be enabled, disabled and reordered; later patches
+ * in the stack override earlier ones.
  */
 
-import { deepMerge } from './deepMerge';
-import { validatePatch, ValidationResult, UniversalPatch } from './schema';
+import { deepMerge, getNestedValue } from './deepMerge';
+import { validatePatch, ValidationResult, UniversalPatch, PatchMetadata } from './schema';
 import { sanitizePatch, filterProtectedNamespaces } from './sanitize';
-import { clearInterpolationCache } from './interpolate';
+import { InterpolationCache, interpolate } from './interpolate';
+import { MissingKeyPolicy, TranslateFunction, lookupTemplate, handleMissingKey, resolvePluralKey } from './translate';
+import { DiagnosticsCollector } from './diagnostics';
+import { normalizeLanguageTag, isValidLanguageTag, getLanguageLineage } from './locale';
+import { MemoryStorage, MigratingStorage, StorageMigration } from './storage';
+import { InflateFunction, PatchPackResult, unpackPatchPack } from './patchPack';
+import {
+  RemoteManifest,
+  RemoteLanguageEntry,
+  HttpValidators,
+  RemoteFetchFailure,
+  RemoteFetchError,
+  isRemoteManifest,
+  isRemoteDelta,
+  applyDelta,
+  buildConditionalHeaders,
+  readValidators,
+  isRetryableStatus,
+  getBackoffDelay,
+} from './remote';
+import { IntegrityConfig, CryptoAdapter, webCryptoAdapter, computeBundleDigest } from './integrity';
 
 /**
  * Storage interface for cross-platform compatibility
@@ -22,6 +45,9 @@ export interface StorageAdapter {
   getItem(key: string): Promise<string | null>;
   setItem(key: string, value: string): Promise<void>;
   removeItem(key: string): Promise<void>;
+  
+  /** Lists every stored key; migrations that rename keys are skipped without it */
+  getAllKeys?(): Promise<string[]>;
 }
 
 /**
@@ -35,21 +61,76 @@ export interface FetchAdapter {
  * Configuration for the loader
  */
 export interface LoaderConfig {
-  /** Current language code (e.g., 'en', 'pt', 'es') */
+  /** Current language code (e.g., 'en', 'pt', 'es', or a regional variant like 'pt-PT') */
   language: string;
   
-  /** Base URL for remote translations */
+  /** Running game version, checked against each patch's compatibleGameVersion */
+  gameVersion?: string;
+  
+  /**
+   * Per-language fallback chains, most specific first
+   * (e.g., { pt: ['es', 'en'], ar: ['fr', 'en'] })
+   * Regional variants use their parent's chain unless they have their own.
+   */
+  fallbackChains?: Record<string, string[]>;
+  
+  /** Fallback chain for languages without an entry in fallbackChains (default: ['en']) */
+  defaultFallback?: string[];
+  
+  /** Base URL for remote translations (serves manifest.json and {lang}/content.json) */
   remoteBaseUrl?: string;
   
+  /** Mirror base URLs tried in order when remoteBaseUrl cannot be reached */
+  remoteMirrors?: string[];
+  
+  /** Timeout for each remote request in milliseconds (default: 10 seconds) */
+  requestTimeout?: number;
+  
+  /** Retries per mirror after network errors, timeouts and 5xx responses (default: 2) */
+  retries?: number;
+  
+  /** Base delay for exponential backoff between retries in milliseconds (default: 500) */
+  retryDelay?: number;
+  
   /** Cache duration in milliseconds (default: 24 hours) */
   cacheDuration?: number;
   
+  /**
+   * Serve a stale remote cache immediately and refresh it in the background
+   * (a remoteUpdated event is emitted when new data is stored)
+   */
+  staleWhileRevalidate?: boolean;
+  
+  /** Remote cache older than this is ignored entirely, in milliseconds (default: 30 days) */
+  maxStaleness?: number;
+  
   /** Storage adapter for patches and cache */
   storage?: StorageAdapter;
   
   /** Fetch adapter for remote requests */
   fetcher?: FetchAdapter;
   
+  /** Signature / digest verification for remote content */
+  integrity?: IntegrityConfig;
+  
+  /** What t() returns for keys that cannot be resolved (default: 'key') */
+  missingKeyPolicy?: MissingKeyPolicy;
+  
+  /** Collect missing keys, broken references and unfilled variables seen by t() */
+  diagnostics?: boolean | DiagnosticsCollector;
+  
+  /** Record which layer supplied each key during loads (enables explainKey winners) */
+  trackProvenance?: boolean;
+  
+  /** Lazy namespaces merged on every load instead of on first access */
+  preloadNamespaces?: string[];
+  
+  /** Reload translations automatically after language, patch and remote cache changes */
+  autoReload?: boolean;
+  
+  /** Previous versions kept per patch for rollback (default: 5) */
+  patchHistoryLimit?: number;
+  
   /** Enable verbose logging */
   debug?: boolean;
 }
@@ -59,11 +140,70 @@ export interface LoaderConfig {
  */
 export interface TranslationSource {
   source: 'bundle' | 'remote' | 'patch';
+  /**
+   * Fixed per source: 0 base bundle, 1 other bundles of the fallback chain,
+   * 2 remote, 3 patches (several bundles may share priority 1)
+   */
   priority: number;
+  /** Bundle language that contributed this layer */
+  language?: string;
   timestamp?: number;
   version?: string;
 }
 
+/**
+ * Registry entry for an installed universal patch
+ * The patch body itself is stored separately under PATCH_ENTRY(id)
+ */
+export interface InstalledPatch {
+  /** Stable identifier derived from metadata.name (see resolvePatchId) */
+  id: string;
+  metadata: PatchMetadata;
+  enabled: boolean;
+  /** Why the loader disabled the patch (e.g., incompatible after a game update) */
+  disabledReason?: string;
+  installedAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A previously installed patch version kept for rollback
+ * The patch body is stored separately under PATCH_HISTORY_ENTRY(id)
+ */
+export interface PatchHistoryEntry {
+  id: string;
+  scope: 'universal' | 'language';
+  /** Patch id (universal) or language code (language) */
+  target: string;
+  /** Storage key the patch was saved under */
+  storageKey: string;
+  metadata?: PatchMetadata;
+  savedAt: number;
+  /** What replaced it */
+  reason: 'replaced' | 'removed' | 'cleared' | 'rolledBack';
+}
+
+/**
+ * Installed patch state as reported by getPatchInfo()
+ */
+export interface PatchInfo {
+  id: string;
+  name: string;
+  version: string;
+  author?: string;
+  enabled: boolean;
+  disabledReason?: string;
+  compatibleGameVersion?: string;
+  /** Position in the stack (0 = applied first, lowest priority) */
+  order: number;
+  installedAt: number;
+  updatedAt: number;
+  /** Patch has a universal section */
+  universal: boolean;
+  /** Patch has overrides for the current language */
+  languageSpecific: boolean;
+}
+
 /**
  * Loaded translations with metadata
  */
@@ -74,20 +214,318 @@ export interface LoadedTranslations {
   loadedAt: number;
 }
 
+/**
+ * Events emitted to loader subscribers
+ */
+export type LoaderEvent =
+  | { type: 'languageChanged'; language: string; previous: string }
+  | { type: 'patchInstalled'; scope: 'universal' | 'language'; id: string; metadata?: PatchMetadata }
+  | { type: 'patchRemoved'; scope: 'universal' | 'language'; id: string }
+  | { type: 'patchToggled'; id: string; enabled: boolean }
+  | { type: 'patchesReordered'; order: string[] }
+  | { type: 'remoteUpdated'; language: string; version?: string }
+  | { type: 'remoteCleared'; language: string }
+  | { type: 'namespacesLoaded'; namespaces: string[] }
+  | { type: 'reloaded'; translations: LoadedTranslations };
+
+/**
+ * Listener for loader events
+ */
+export type LoaderListener = (event: LoaderEvent) => void;
+
+/**
+ * A key set by more than one override source
+ */
+export interface PatchConflict {
+  key: string;
+  /** Every layer that sets the key, in application order */
+  values: LayerValue[];
+  /** Layer whose value is used */
+  winner: string;
+  /** All sources set the same value */
+  identical: boolean;
+}
+
+/**
+ * Result of analyzeConflicts()
+ */
+export interface ConflictReport {
+  conflicts: PatchConflict[];
+  /** Validation of the candidate patch (dry runs only) */
+  validation?: ValidationResult;
+  /**
+   * Dry runs only: number of keys the candidate would take over from each
+   * other source (e.g., { 'patch:real-awards': 14 })
+   */
+  overrides: Record<string, number>;
+}
+
+/**
+ * A key whose value would change with a previewed patch
+ */
+export interface PreviewChange {
+  key: string;
+  before: unknown;
+  after: unknown;
+  /**
+   * Set when the template itself is unchanged but {{ref:}} targets change;
+   * before / after are then the rendered strings
+   */
+  references?: string[];
+}
+
+/**
+ * Result of previewPatch()
+ */
+export interface PatchPreview {
+  language: string;
+  validation: ValidationResult;
+  /** Translations with the patch applied (null when the patch is invalid) */
+  translations: Record<string, unknown> | null;
+  changes: PreviewChange[];
+}
+
+/**
+ * Lazily loads one top-level namespace of a bundle (e.g., 'news')
+ * May return the value directly or as a promise (e.g., a dynamic import)
+ */
+export type NamespaceLoader = () => unknown | Promise<unknown>;
+
+/**
+ * Load statistics for a lazy namespace
+ */
+export interface NamespaceStats {
+  namespace: string;
+  loaded: boolean;
+  /** Time spent loading and merging, in milliseconds */
+  loadTime: number;
+  /** Approximate in-memory size of the merged value, in bytes */
+  size: number;
+}
+
+/**
+ * A layer of the last load, kept so lazy namespaces can be merged
+ * into the same position later
+ */
+interface LayerRecord {
+  /** Layer name used for provenance (e.g., 'bundle:en', 'remote', 'patch:real-awards') */
+  label: string;
+  /** Set for bundle layers; lazy namespaces of this language slot in here */
+  language?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Value of a key in a single layer
+ */
+export interface LayerValue {
+  layer: string;
+  value: unknown;
+}
+
+/**
+ * Where a resolved translation came from, as returned by explainKey()
+ */
+export interface KeyExplanation {
+  key: string;
+  /** Final merged value */
+  value: unknown;
+  /** Layer that supplied the final value, or null if the key is missing */
+  winner: string | null;
+  /** Every layer that defines the key, lowest priority first */
+  layers: LayerValue[];
+}
+
+/**
+ * Cached remote layer with the version it was fetched at
+ */
+interface RemoteLayer {
+  data: Record<string, unknown>;
+  /** Verified bundle as published, before sanitizing; deltas apply to it */
+  raw: Record<string, unknown>;
+  version?: string;
+  timestamp?: number;
+}
+
+/**
+ * Remote response with its body, read within the request timeout
+ */
+interface RemoteResponse {
+  response: Response;
+  body: string;
+}
+
+/**
+ * Stored alongside the remote cache for conditional requests
+ */
+interface RemoteCacheMeta extends HttpValidators {
+  version?: string;
+}
+
+/**
+ * Last fetched manifest with its validators
+ */
+interface StoredManifest extends HttpValidators {
+  manifest: RemoteManifest;
+}
+
 // Storage keys
 const STORAGE_KEYS = {
   REMOTE_CACHE: (lang: string) => `@mfcs_remote_${lang}`,
   REMOTE_TIMESTAMP: (lang: string) => `@mfcs_remote_ts_${lang}`,
+  REMOTE_META: (lang: string) => `@mfcs_remote_meta_${lang}`,
+  REMOTE_MANIFEST: '@mfcs_remote_manifest',
   LOCAL_PATCH: (lang: string) => `@mfcs_patch_${lang}`,
-  UNIVERSAL_PATCH: '@mfcs_universal_patch',
+  UNIVERSAL_PATCH: '@mfcs_universal_patch', // Legacy single-patch slot
+  PATCH_REGISTRY: '@mfcs_patch_registry',
+  PATCH_ENTRY: (id: string) => `@mfcs_patch_entry_${id}`,
+  PATCH_HISTORY: '@mfcs_patch_history',
+  PATCH_HISTORY_ENTRY: (id: string) => `@mfcs_patch_history_${id}`,
+  SCHEMA_VERSION: '@mfcs_schema_version',
+  BACKUP: (key: string) => `${key}_backup`, // Data a migration could not read
 };
 
+/**
+ * Storage schema steps, run in order on existing installs
+ * Add a step whenever the key layout changes instead of reading old keys ad hoc.
+ */
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move the single universal patch into the patch registry',
+    async migrate(storage) {
+      const legacyJson = await storage.getItem(STORAGE_KEYS.UNIVERSAL_PATCH);
+      if (!legacyJson) {
+        return;
+      }
+      
+      let legacy: UniversalPatch | null = null;
+      try {
+        legacy = JSON.parse(legacyJson) as UniversalPatch;
+      } catch {
+        // Handled below with the other unusable data
+      }
+      
+      const name = legacy?.metadata?.name;
+      if (!legacy || typeof name !== 'string' || !name.trim()) {
+        // Kept aside rather than dropped, so it can still be recovered by hand
+        await storage.setItem(STORAGE_KEYS.BACKUP(STORAGE_KEYS.UNIVERSAL_PATCH), legacyJson);
+        await storage.removeItem(STORAGE_KEYS.UNIVERSAL_PATCH);
+        return;
+      }
+      
+      const registryJson = await storage.getItem(STORAGE_KEYS.PATCH_REGISTRY);
+      let registry: InstalledPatch[] = [];
+      try {
+        const parsed: unknown = registryJson ? JSON.parse(registryJson) : [];
+        registry = Array.isArray(parsed) ? parsed as InstalledPatch[] : [];
+      } catch {
+        // An unreadable registry is read as empty by the loader; keep a copy before replacing it
+        await storage.setItem(STORAGE_KEYS.BACKUP(STORAGE_KEYS.PATCH_REGISTRY), registryJson!);
+      }
+      
+      const id = resolvePatchId(legacy.metadata, registry);
+      if (!registry.some(entry => entry.id === id)) {
+        const now = Date.now();
+        registry.unshift({ id, metadata: legacy.metadata, enabled: true, installedAt: now, updatedAt: now });
+        await storage.setItem(STORAGE_KEYS.PATCH_ENTRY(id), legacyJson);
+        await storage.setItem(STORAGE_KEYS.PATCH_REGISTRY, JSON.stringify(registry));
+      }
+      
+      await storage.removeItem(STORAGE_KEYS.UNIVERSAL_PATCH);
+    },
+  },
+  {
+    version: 2,
+    description: 'Rename language patches to normalized language tags',
+    async migrate(storage) {
+      if (!storage.getAllKeys) {
+        return;
+      }
+      
+      const prefix = STORAGE_KEYS.LOCAL_PATCH('');
+      for (const key of await storage.getAllKeys()) {
+        if (!key.startsWith(prefix)) {
+          continue;
+        }
+        
+        // Registry, entry and history keys share the prefix but are not language tags
+        const tag = normalizeLanguageTag(key.slice(prefix.length));
+        const target = STORAGE_KEYS.LOCAL_PATCH(tag);
+        if (target === key || !isValidLanguageTag(tag)) {
+          continue;
+        }
+        
+        const value = await storage.getItem(key);
+        if (value !== null) {
+          if (await storage.getItem(target) === null) {
+            await storage.setItem(target, value);
+          } else {
+            // The patch already under the normalized tag is the one the loader reads
+            await storage.setItem(STORAGE_KEYS.BACKUP(key), value);
+          }
+        }
+        await storage.removeItem(key);
+      }
+    },
+  },
+];
+
+/**
+ * Hashes a patch name into a short base-36 string (FNV-1a)
+ */
+function hashPatchName(name: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Derives the registry id for a patch from its metadata name
+ * Letters and digits of any script are kept; a name without any gets a hash.
+ */
+export function getPatchId(metadata: PatchMetadata): string {
+  const name = metadata.name.trim();
+  const slug = name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || `patch-${hashPatchName(name)}`;
+}
+
+/**
+ * Resolves the registry id for a patch
+ * An installed patch with the same name keeps its id; a slug already used
+ * by a differently named patch (e.g., 'My Patch' vs 'my-patch!') gets a
+ * hash suffix so the two do not overwrite each other.
+ */
+export function resolvePatchId(metadata: PatchMetadata, registry: InstalledPatch[]): string {
+  const name = metadata.name.trim();
+  const installed = registry.find(entry => entry.metadata?.name?.trim() === name);
+  if (installed) {
+    return installed.id;
+  }
+  
+  const id = getPatchId(metadata);
+  return registry.some(entry => entry.id === id) ? `${id}-${hashPatchName(name)}` : id;
+}
+
 // Base language for fallback
 const BASE_LANGUAGE = 'en';
 
 // Default configuration
 const DEFAULT_CONFIG: Partial<LoaderConfig> = {
   cacheDuration: 24 * 60 * 60 * 1000, // 24 hours
+  maxStaleness: 30 * 24 * 60 * 60 * 1000, // 30 days
+  requestTimeout: 10 * 1000, // 10 seconds
+  retries: 2,
+  retryDelay: 500,
+  defaultFallback: [BASE_LANGUAGE],
+  patchHistoryLimit: 5,
   debug: false,
 };
 
@@ -103,22 +541,103 @@ function createLogger(debug: boolean) {
 }
 
 /**
- * Default in-memory storage (fallback when no adapter provided)
+ * High-resolution clock when available
  */
-class MemoryStorage implements StorageAdapter {
-  private store = new Map<string, string>();
-  
-  async getItem(key: string): Promise<string | null> {
-    return this.store.get(key) ?? null;
+function now(): number {
+  return globalThis.performance?.now() ?? Date.now();
+}
+
+/**
+ * Visits every leaf under a value with its dot path
+ * Objects are walked; strings, numbers and arrays are leaves.
+ */
+function forEachLeaf(
+  value: unknown,
+  path: string,
+  visit: (path: string, value: unknown) => void
+): void {
+  if (value === undefined) {
+    return;
   }
   
-  async setItem(key: string, value: string): Promise<void> {
-    this.store.set(key, value);
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      forEachLeaf(child, path ? `${path}.${key}` : key, visit);
+    }
+    return;
   }
   
-  async removeItem(key: string): Promise<void> {
-    this.store.delete(key);
+  visit(path, value);
+}
+
+/**
+ * Builds the remote layer from a verified bundle
+ * Returns null when nothing usable is left after sanitizing.
+ */
+function toRemoteLayer(raw: unknown, version?: string, timestamp?: number): RemoteLayer | null {
+  const sanitized = sanitizePatch(raw);
+  if (!sanitized) {
+    return null;
   }
+  
+  return {
+    data: filterProtectedNamespaces(sanitized),
+    raw: raw as Record<string, unknown>,
+    version,
+    timestamp,
+  };
+}
+
+/**
+ * Groups a layer label by the source that produced it
+ * ('patch:real-awards:pt' → 'patch:real-awards')
+ */
+function getLayerSource(label: string): string {
+  return label.startsWith('patch:') ? label.split(':').slice(0, 2).join(':') : label;
+}
+
+/**
+ * Records the layer label for every leaf under a value
+ */
+function recordProvenance(
+  provenance: Map<string, string>,
+  value: unknown,
+  path: string,
+  label: string
+): void {
+  forEachLeaf(value, path, leafPath => provenance.set(leafPath, label));
+}
+
+/**
+ * State shared by the loaders of a LoaderRegistry
+ */
+export interface SharedLoaderState {
+  bundles: Map<string, Record<string, unknown>>;
+  namespaceLoaders: Map<string, Map<string, NamespaceLoader>>;
+  /** Storage with schema migrations applied */
+  storage: StorageAdapter;
+}
+
+/**
+ * Creates the shared state for a standalone loader or a registry
+ */
+function createSharedState(
+  storage: StorageAdapter | undefined,
+  logger: ReturnType<typeof createLogger>
+): SharedLoaderState {
+  return {
+    bundles: new Map(),
+    namespaceLoaders: new Map(),
+    storage: new MigratingStorage(
+      storage ?? new MemoryStorage(),
+      STORAGE_MIGRATIONS,
+      STORAGE_KEYS.SCHEMA_VERSION,
+      {
+        onMigrate: migration => logger.log(`Migrated storage to v${migration.version}: ${migration.description}`),
+        onError: error => logger.warn('Storage migration failed:', error),
+      }
+    ),
+  };
 }
 
 /**
@@ -128,268 +647,1505 @@ export class TranslationLoader {
   private config: LoaderConfig & typeof DEFAULT_CONFIG;
   private storage: StorageAdapter;
   private logger: ReturnType<typeof createLogger>;
-  private bundleTranslations: Map<string, Record<string, unknown>> = new Map();
+  private bundleTranslations: Map<string, Record<string, unknown>>;
   private lastLoadedData: Record<string, unknown> = {};
+  private interpolationCache = new InterpolationCache(2000);
+  private namespaceLoaders: Map<string, Map<string, NamespaceLoader>>;
+  private namespaceValues: Map<string, unknown> = new Map();
+  private namespacePending: Map<string, Promise<unknown>> = new Map();
+  private mergedNamespaces: Set<string> = new Set();
+  private requestedNamespaces: Set<string> = new Set();
+  private namespaceStats: Map<string, NamespaceStats> = new Map();
+  private lastLayers: LayerRecord[] = [];
+  private provenance: Map<string, string> = new Map();
+  private diagnostics: DiagnosticsCollector | null;
+  private listeners: Set<LoaderListener> = new Set();
+  private pendingReload: Promise<LoadedTranslations> | null = null;
+  private remoteRefreshes: Map<string, Promise<boolean>> = new Map();
+  private activeMirror: number = 0;
   
-  constructor(config: LoaderConfig) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    this.storage = config.storage ?? new MemoryStorage();
+  /**
+   * @param shared - Bundles, namespace loaders and storage shared with other
+   *   loaders (see LoaderRegistry); config.storage is ignored when given
+   */
+  constructor(config: LoaderConfig, shared?: SharedLoaderState) {
+    this.config = { ...DEFAULT_CONFIG, ...config, language: normalizeLanguageTag(config.language) };
     this.logger = createLogger(this.config.debug ?? false);
+    const state = shared ?? createSharedState(config.storage, this.logger);
+    this.storage = state.storage;
+    this.bundleTranslations = state.bundles;
+    this.namespaceLoaders = state.namespaceLoaders;
+    this.diagnostics = config.diagnostics instanceof DiagnosticsCollector
+      ? config.diagnostics
+      : config.diagnostics ? new DiagnosticsCollector() : null;
   }
   
   /**
    * Register bundle translations for a language
-   * Call this during app initialization with your local JSON imports
+   * Call this during app initialization with your local JSON imports.
+   * Locale entry points (e.g., `en/index.ts`) export the eager bundle as
+   * default and their lazy files as `namespaces`, for registerNamespaces.
+   * Regional variants (e.g., 'pt-PT') only need the keys that differ
+   * from their parent bundle; they are layered on top of it when loading.
    */
   registerBundle(language: string, translations: Record<string, unknown>): void {
-    this.bundleTranslations.set(language, translations);
-    this.logger.log(`Registered bundle for: ${language}`);
+    const tag = normalizeLanguageTag(language);
+    this.bundleTranslations.set(tag, translations);
+    this.logger.log(`Registered bundle for: ${tag}`);
   }
   
   /**
-   * Load translations with full layer resolution
+   * Register lazy namespace loaders for a language
+   * Each namespace is loaded and merged on first access (or via preload),
+   * on top of the eager bundle for the same language if there is one.
    */
-  async loadTranslations(): Promise<LoadedTranslations> {
-    const { language } = this.config;
-    const sources: TranslationSource[] = [];
-    const layers: Record<string, unknown>[] = [];
+  registerNamespaces(language: string, loaders: Record<string, NamespaceLoader>): void {
+    const tag = normalizeLanguageTag(language);
+    const existing = this.namespaceLoaders.get(tag) ?? new Map<string, NamespaceLoader>();
     
-    // Layer 4: English Bundle (base, always present)
-    const baseBundle = this.bundleTranslations.get(BASE_LANGUAGE);
-    if (baseBundle) {
-      layers.push(baseBundle);
-      sources.push({ source: 'bundle', priority: 0, version: 'base-en' });
-      this.logger.log('Loaded base English translations');
-    } else if (language !== BASE_LANGUAGE) {
-      this.logger.warn(`Base language (${BASE_LANGUAGE}) bundle not registered`);
-    }
-    
-    // Layer 3: Target Language Bundle (if not English)
-    if (language !== BASE_LANGUAGE) {
-      const targetBundle = this.bundleTranslations.get(language);
-      if (targetBundle) {
-        layers.push(targetBundle);
-        sources.push({ source: 'bundle', priority: 1 });
-        this.logger.log(`Loaded ${language} bundle translations`);
-      } else {
-        this.logger.warn(`No bundle registered for language: ${language}`);
+    for (const [namespace, loader] of Object.entries(loaders)) {
+      existing.set(namespace, loader);
+      this.namespaceValues.delete(`${tag}:${namespace}`);
+    }
+    
+    this.namespaceLoaders.set(tag, existing);
+    this.logger.log(`Registered lazy namespaces for ${tag}: ${Object.keys(loaders).join(', ')}`);
+  }
+  
+  /**
+   * Load and merge lazy namespaces ahead of first access
+   */
+  async preload(namespaces: string[]): Promise<void> {
+    const loaded = await this.loadNamespaces(namespaces);
+    
+    if (loaded.length > 0) {
+      this.clearInterpolationCaches();
+      this.emit({ type: 'namespacesLoaded', namespaces: loaded });
+    }
+  }
+  
+  /**
+   * Check if a namespace is available in the loaded data
+   * Eager namespaces are always loaded.
+   */
+  isNamespaceLoaded(namespace: string): boolean {
+    return this.mergedNamespaces.has(namespace) || !this.isLazyNamespace(namespace);
+  }
+  
+  /**
+   * Get load time and memory statistics for lazy namespaces
+   */
+  getNamespaceStats(): {
+    namespaces: NamespaceStats[];
+    loaded: number;
+    registered: number;
+    totalLoadTime: number;
+    totalSize: number;
+  } {
+    const registered = new Set<string>();
+    for (const loaders of this.namespaceLoaders.values()) {
+      loaders.forEach((_, namespace) => registered.add(namespace));
+    }
+    
+    const namespaces = Array.from(registered).map(namespace =>
+      this.namespaceStats.get(namespace) ?? { namespace, loaded: false, loadTime: 0, size: 0 }
+    );
+    
+    return {
+      namespaces,
+      loaded: namespaces.filter(n => n.loaded).length,
+      registered: namespaces.length,
+      totalLoadTime: namespaces.reduce((sum, n) => sum + n.loadTime, 0),
+      totalSize: namespaces.reduce((sum, n) => sum + n.size, 0),
+    };
+  }
+  
+  /**
+   * Check if any language in the current chain loads a namespace lazily
+   */
+  private isLazyNamespace(namespace: string): boolean {
+    return this.getFallbackChain().some(
+      language => this.namespaceLoaders.get(language)?.has(namespace)
+    );
+  }
+  
+  /**
+   * Run (or reuse) a namespace loader for one language
+   */
+  private loadNamespaceValue(language: string, namespace: string): unknown {
+    const key = `${language}:${namespace}`;
+    
+    if (this.namespaceValues.has(key)) {
+      return this.namespaceValues.get(key);
+    }
+    if (this.namespacePending.has(key)) {
+      return this.namespacePending.get(key);
+    }
+    
+    const loader = this.namespaceLoaders.get(language)?.get(namespace);
+    if (!loader) {
+      return undefined;
+    }
+    
+    const value = loader();
+    if (value instanceof Promise) {
+      const pending = value.then(resolved => {
+        this.namespaceValues.set(key, resolved);
+        this.namespacePending.delete(key);
+        return resolved;
+      }, error => {
+        this.namespacePending.delete(key);
+        throw error;
+      });
+      this.namespacePending.set(key, pending);
+      return pending;
+    }
+    
+    this.namespaceValues.set(key, value);
+    return value;
+  }
+  
+  /**
+   * Load a namespace for every language in the chain, without waiting
+   * Returns null if any loader is still pending.
+   */
+  private resolveNamespaceSync(namespace: string): Map<string, unknown> | null {
+    const values = new Map<string, unknown>();
+    let pending = false;
+    
+    for (const language of this.getFallbackChain()) {
+      const value = this.loadNamespaceValue(language, namespace);
+      if (value instanceof Promise) {
+        pending = true;
+      } else if (value !== undefined) {
+        values.set(language, value);
       }
     }
     
-    // Layer 2: Remote translations (if configured)
-    if (this.config.remoteBaseUrl) {
-      try {
-        const remoteData = await this.loadRemoteTranslations();
-        if (remoteData) {
-          layers.push(remoteData);
-          sources.push({ source: 'remote', priority: 2, timestamp: Date.now() });
-          this.logger.log('Loaded remote translations');
-        }
-      } catch (error) {
-        this.logger.warn('Failed to load remote translations:', error);
-        // Try to use cached remote data
-        const cachedRemote = await this.getCachedRemote();
-        if (cachedRemote) {
-          layers.push(cachedRemote);
-          sources.push({ source: 'remote', priority: 2, timestamp: Date.now() });
-          this.logger.log('Using cached remote translations');
-        }
+    return pending ? null : values;
+  }
+  
+  /**
+   * Load a namespace for every language in the chain
+   */
+  private async resolveNamespace(namespace: string): Promise<Map<string, unknown>> {
+    const values = new Map<string, unknown>();
+    
+    for (const language of this.getFallbackChain()) {
+      const value = await this.loadNamespaceValue(language, namespace);
+      if (value !== undefined) {
+        values.set(language, value);
       }
     }
     
-    // Layer 1: Local patches (highest priority)
-    try {
-      const patchData = await this.loadLocalPatches();
-      if (patchData) {
-        layers.push(patchData);
-        sources.push({ source: 'patch', priority: 3, timestamp: Date.now() });
-        this.logger.log('Loaded local patches');
+    return values;
+  }
+  
+  /**
+   * Merge a lazily loaded namespace into the loaded data
+   * Each language's value slots in at its bundle layer, so remote and
+   * patch layers still override it.
+   */
+  private applyNamespace(namespace: string, values: Map<string, unknown>, startedAt: number): void {
+    let merged: Record<string, unknown> = {};
+    
+    for (const layer of this.lastLayers) {
+      if (layer.data?.[namespace] !== undefined) {
+        merged = deepMerge(merged, { [namespace]: layer.data[namespace] });
       }
-    } catch (error) {
-      this.logger.warn('Failed to load local patches:', error);
+      const lazyValue = layer.language ? values.get(layer.language) : undefined;
+      if (lazyValue !== undefined) {
+        merged = deepMerge(merged, { [namespace]: lazyValue });
+      }
+    }
+    
+    this.lastLoadedData = { ...this.lastLoadedData, [namespace]: merged[namespace] };
+    this.mergedNamespaces.add(namespace);
+    
+    if (this.config.trackProvenance) {
+      this.recordNamespaceProvenance(namespace, values);
+    }
+    
+    const stats: NamespaceStats = {
+      namespace,
+      loaded: true,
+      loadTime: now() - startedAt,
+      size: (JSON.stringify(merged[namespace])?.length ?? 0) * 2,
+    };
+    this.namespaceStats.set(namespace, stats);
+    this.logger.log(`Merged namespace ${namespace} in ${stats.loadTime.toFixed(1)}ms`);
+  }
+  
+  /**
+   * Rebuild provenance entries for a lazily merged namespace
+   */
+  private recordNamespaceProvenance(namespace: string, values: Map<string, unknown>): void {
+    for (const path of Array.from(this.provenance.keys())) {
+      if (path === namespace || path.startsWith(`${namespace}.`)) {
+        this.provenance.delete(path);
+      }
+    }
+    
+    for (const layer of this.lastLayers) {
+      recordProvenance(this.provenance, layer.data?.[namespace], namespace, layer.label);
+      if (layer.language) {
+        recordProvenance(this.provenance, values.get(layer.language), namespace, layer.label);
+      }
+    }
+  }
+  
+  /**
+   * Load and merge namespaces that are lazy and not merged yet
+   * Returns the namespaces that were merged.
+   */
+  private async loadNamespaces(namespaces: string[]): Promise<string[]> {
+    const loaded: string[] = [];
+    
+    for (const namespace of namespaces) {
+      this.requestedNamespaces.add(namespace);
+      if (this.isNamespaceLoaded(namespace)) {
+        continue;
+      }
+      
+      const startedAt = now();
+      try {
+        const values = await this.resolveNamespace(namespace);
+        this.applyNamespace(namespace, values, startedAt);
+        loaded.push(namespace);
+      } catch (error) {
+        this.logger.warn(`Failed to load namespace ${namespace}:`, error);
+      }
+    }
+    
+    return loaded;
+  }
+  
+  /**
+   * Merge a lazy namespace on first access
+   * Synchronous loaders are merged immediately; asynchronous ones are
+   * merged in the background and announced with a namespacesLoaded event.
+   */
+  private accessNamespace(namespace: string): void {
+    if (this.isNamespaceLoaded(namespace)) {
+      return;
+    }
+    
+    this.requestedNamespaces.add(namespace);
+    const startedAt = now();
+    const values = this.resolveNamespaceSync(namespace);
+    
+    if (values) {
+      this.applyNamespace(namespace, values, startedAt);
+      this.clearInterpolationCaches();
+      this.emit({ type: 'namespacesLoaded', namespaces: [namespace] });
+    } else {
+      this.preload([namespace]).catch(error =>
+        this.logger.warn(`Failed to load namespace ${namespace}:`, error)
+      );
+    }
+  }
+  
+  /**
+   * Subscribe to loader events
+   * Returns a function that removes the listener.
+   */
+  subscribe(listener: LoaderListener): () => void {
+    this.listeners.add(listener);
+    return () => this.unsubscribe(listener);
+  }
+  
+  /**
+   * Remove a listener added with subscribe()
+   */
+  unsubscribe(listener: LoaderListener): void {
+    this.listeners.delete(listener);
+  }
+  
+  /**
+   * Notify listeners; a throwing listener does not affect the others
+   */
+  private emit(event: LoaderEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error(`Listener failed on ${event.type}:`, error);
+      }
+    }
+  }
+  
+  /**
+   * Clear this loader's cached interpolations after its translations change
+   * Other loaders and direct interpolate() calls keep their own caches.
+   */
+  private clearInterpolationCaches(): void {
+    this.interpolationCache.clear();
+  }
+  
+  /**
+   * Queue a reload after a change when autoReload is enabled
+   * Changes made in the same tick share one reload.
+   */
+  private scheduleReload(): void {
+    if (!this.config.autoReload || this.pendingReload) {
+      return;
+    }
+    
+    this.pendingReload = Promise.resolve().then(() => {
+      this.pendingReload = null;
+      return this.loadTranslations();
+    });
+    this.pendingReload.catch(error => this.logger.error('Auto-reload failed:', error));
+  }
+  
+  /**
+   * Load translations with full layer resolution
+   */
+  async loadTranslations(): Promise<LoadedTranslations> {
+    const { language } = this.config;
+    const sources: TranslationSource[] = [];
+    const layers: Record<string, unknown>[] = [];
+    const layerRecords: LayerRecord[] = [];
+    
+    // Layer 3: Bundles along the fallback chain, least specific first
+    const chain = this.getFallbackChain(language);
+    
+    for (const bundleLanguage of [...chain].reverse()) {
+      const bundle = this.bundleTranslations.get(bundleLanguage);
+      const hasNamespaces = this.namespaceLoaders.has(bundleLanguage);
+      layerRecords.push({ label: `bundle:${bundleLanguage}`, language: bundleLanguage, data: bundle });
+      
+      if (bundle || hasNamespaces) {
+        if (bundle) {
+          layers.push(bundle);
+        }
+        sources.push(bundleLanguage === BASE_LANGUAGE
+          ? { source: 'bundle', priority: 0, language: bundleLanguage, version: `base-${BASE_LANGUAGE}` }
+          : { source: 'bundle', priority: 1, language: bundleLanguage });
+        this.logger.log(`Loaded ${bundleLanguage} bundle translations`);
+      } else if (bundleLanguage === language) {
+        this.logger.warn(`No bundle registered for language: ${language}`);
+      } else {
+        this.logger.warn(`Fallback bundle (${bundleLanguage}) not registered`);
+      }
+    }
+    
+    // Layer 2: Remote translations (if configured)
+    if (this.config.remoteBaseUrl) {
+      const remote = await this.resolveRemoteLayer(language);
+      if (remote) {
+        layers.push(remote.data);
+        layerRecords.push({ label: 'remote', data: remote.data });
+        sources.push({
+          source: 'remote',
+          priority: 2,
+          timestamp: remote.timestamp ?? Date.now(),
+          version: remote.version,
+        });
+      }
+    }
+    
+    // Layer 1: Local patches (highest priority)
+    try {
+      const patchLayers = await this.loadLocalPatches(language);
+      if (patchLayers.length > 0) {
+        for (const patchLayer of patchLayers) {
+          layers.push(patchLayer.data!);
+          layerRecords.push(patchLayer);
+        }
+        sources.push({ source: 'patch', priority: 3, timestamp: Date.now() });
+        this.logger.log('Loaded local patches');
+      }
+    } catch (error) {
+      this.logger.warn('Failed to load local patches:', error);
+    }
+    
+    // Merge all layers
+    const mergedData = layers.reduce(
+      (acc, layer) => deepMerge(acc, layer as Record<string, unknown>),
+      {} as Record<string, unknown>
+    );
+    
+    this.lastLoadedData = mergedData;
+    this.lastLayers = layerRecords;
+    this.mergedNamespaces = new Set();
+    this.provenance = new Map();
+    
+    if (this.config.trackProvenance) {
+      for (const layer of layerRecords) {
+        recordProvenance(this.provenance, layer.data, '', layer.label);
+      }
+    }
+    
+    // Re-merge lazy namespaces that were already in use, plus configured preloads
+    await this.loadNamespaces([
+      ...(this.config.preloadNamespaces ?? []),
+      ...Array.from(this.requestedNamespaces),
+    ]);
+    
+    // Clear interpolation caches when translations change
+    this.clearInterpolationCaches();
+    
+    const result: LoadedTranslations = {
+      data: this.lastLoadedData,
+      sources,
+      language,
+      loadedAt: Date.now(),
+    };
+    
+    this.emit({ type: 'reloaded', translations: result });
+    return result;
+  }
+  
+  /**
+   * Resolve the bundle chain for a language, most specific first
+   * The language itself always leads the chain; duplicates are dropped.
+   */
+  getFallbackChain(language: string = this.config.language): string[] {
+    // Regional variants fall back through their parents first: pt-PT → pt
+    const lineage = getLanguageLineage(language).reverse();
+    const chains = this.config.fallbackChains ?? {};
+    const configured = lineage.find(tag => chains[tag]);
+    const fallbacks = (configured ? chains[configured] : undefined)
+      ?? this.config.defaultFallback
+      ?? [BASE_LANGUAGE];
+    
+    return Array.from(new Set([...lineage, ...fallbacks.map(normalizeLanguageTag)]));
+  }
+  
+  /**
+   * Pick the remote layer for a load
+   * - fresh cache: used as is
+   * - stale cache with staleWhileRevalidate: used now, refreshed in the background
+   * - otherwise: fetched, falling back to the cache if the fetch fails
+   * Caches older than maxStaleness are never used.
+   */
+  private async resolveRemoteLayer(language: string): Promise<RemoteLayer | null> {
+    const { cacheDuration, maxStaleness, staleWhileRevalidate } = this.config;
+    const cached = await this.getCachedRemote(language);
+    const age = cached?.timestamp !== undefined ? Date.now() - cached.timestamp : Infinity;
+    const usable = cached && age <= (maxStaleness ?? DEFAULT_CONFIG.maxStaleness!) ? cached : null;
+    
+    if (cached && !usable) {
+      this.logger.log('Ignoring remote cache older than maxStaleness');
+    }
+    
+    if (usable && age < (cacheDuration ?? DEFAULT_CONFIG.cacheDuration!)) {
+      this.logger.log('Using cached remote translations (still fresh)');
+      return usable;
+    }
+    
+    if (usable && staleWhileRevalidate) {
+      this.logger.log('Using stale remote translations, refreshing in background');
+      void this.refreshRemoteLanguage(language);
+      return usable;
+    }
+    
+    try {
+      const remote = await this.loadRemoteTranslations(language, cached);
+      if (remote) {
+        this.logger.log('Loaded remote translations');
+      }
+      return remote;
+    } catch (error) {
+      this.logger.warn('Failed to load remote translations:', error);
+      if (usable) {
+        this.logger.log('Using cached remote translations');
+      }
+      return usable;
+    }
+  }
+  
+  /**
+   * Refresh the remote layer now, regardless of cache age
+   * Resolves to true if new remote data was stored; concurrent calls share
+   * one request. With autoReload, a reload follows an update.
+   */
+  refreshRemote(): Promise<boolean> {
+    return this.refreshRemoteLanguage(this.config.language);
+  }
+  
+  /**
+   * Refresh the remote layer of one language
+   * The language is fixed when the refresh starts, so switching languages
+   * mid-flight cannot store one language's data under another's keys.
+   */
+  private refreshRemoteLanguage(language: string): Promise<boolean> {
+    if (!this.config.remoteBaseUrl) {
+      return Promise.resolve(false);
+    }
+    
+    let refresh = this.remoteRefreshes.get(language);
+    if (!refresh) {
+      refresh = (async () => {
+        try {
+          const cached = await this.getCachedRemote(language);
+          const remote = await this.loadRemoteTranslations(language, cached);
+          const updated = remote !== null && remote !== cached;
+          if (updated && language === this.config.language) {
+            this.scheduleReload();
+          }
+          return updated;
+        } catch (error) {
+          this.logger.warn('Background remote refresh failed:', error);
+          return false;
+        } finally {
+          this.remoteRefreshes.delete(language);
+        }
+      })();
+      this.remoteRefreshes.set(language, refresh);
+    }
+    
+    return refresh;
+  }
+  
+  /**
+   * Fetch remote translations
+   * Uses the remote manifest to skip unchanged bundles and apply deltas;
+   * falls back to fetching {lang}/content.json when no manifest is published.
+   * Returns `cached` itself when the remote has nothing newer.
+   */
+  private async loadRemoteTranslations(
+    language: string,
+    cached: RemoteLayer | null
+  ): Promise<RemoteLayer | null> {
+    const { remoteBaseUrl } = this.config;
+    
+    if (!remoteBaseUrl) {
+      return null;
+    }
+    
+    const manifest = await this.fetchManifest();
+    
+    // No manifest published: fetch the bundle directly
+    if (!manifest) {
+      if (this.config.integrity?.publicKey) {
+        this.rejectRemote('no signed manifest published');
+      }
+      return this.fetchRemoteBundle(language, `${language}/content.json`, undefined, cached);
+    }
+    
+    const entry = manifest.languages[language];
+    if (!entry) {
+      this.logger.log(`Remote manifest has no entry for: ${language}`);
+      await this.touchRemoteCache(language);
+      return null;
+    }
+    
+    if (cached?.version === entry.version) {
+      this.logger.log(`Remote translations up to date (v${entry.version})`);
+      await this.touchRemoteCache(language);
+      return cached;
+    }
+    
+    // Prefer a delta from the cached version when one is published
+    const deltaPath = cached?.version ? entry.deltas?.[cached.version] : undefined;
+    if (cached && deltaPath) {
+      try {
+        return await this.fetchRemoteDelta(language, deltaPath, entry, cached);
+      } catch (error) {
+        this.logger.warn('Delta update failed, downloading full bundle:', error);
+      }
+    }
+    
+    return this.fetchRemoteBundle(language, entry.path ?? `${language}/content.json`, entry, cached);
+  }
+  
+  /**
+   * Fetch a path relative to remoteBaseUrl
+   * Each mirror is retried with backoff on network errors, timeouts and
+   * 5xx responses before moving on to the next one; the mirror that last
+   * answered is tried first next time. Other responses (including 304 and
+   * 404) are returned to the caller as is.
+   */
+  private async fetchRemote(path: string, headers: Record<string, string> = {}): Promise<RemoteResponse> {
+    const mirrors = [this.config.remoteBaseUrl!, ...(this.config.remoteMirrors ?? [])];
+    const retries = this.config.retries ?? DEFAULT_CONFIG.retries!;
+    const failures: RemoteFetchFailure[] = [];
+    
+    for (let i = 0; i < mirrors.length; i++) {
+      const index = (this.activeMirror + i) % mirrors.length;
+      const mirror = mirrors[index];
+      const url = `${mirror}/${path}`;
+      let reason = '';
+      
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        if (attempt > 0) {
+          await new Promise(resolve => setTimeout(
+            resolve,
+            getBackoffDelay(attempt - 1, this.config.retryDelay ?? DEFAULT_CONFIG.retryDelay!)
+          ));
+        }
+        
+        this.logger.log(`Fetching remote resource: ${url}`);
+        try {
+          const result = await this.fetchWithTimeout(url, headers);
+          const { response } = result;
+          if (!isRetryableStatus(response.status)) {
+            this.activeMirror = index;
+            return result;
+          }
+          reason = `HTTP ${response.status}: ${response.statusText}`;
+        } catch (error) {
+          reason = error instanceof Error ? error.message : String(error);
+        }
+      }
+      
+      this.logger.warn(`Remote mirror ${mirror} failed: ${reason}`);
+      failures.push({ mirror, url, attempts: retries + 1, reason });
+    }
+    
+    throw new RemoteFetchError(path, failures);
+  }
+  
+  /**
+   * Single fetch aborted after requestTimeout
+   * The timeout covers reading the body, so a stalled download fails too,
+   * and also applies to fetchers that ignore the abort signal.
+   */
+  private async fetchWithTimeout(url: string, headers: Record<string, string>): Promise<RemoteResponse> {
+    const timeout = this.config.requestTimeout ?? DEFAULT_CONFIG.requestTimeout!;
+    const fetcher = this.config.fetcher ?? { fetch: globalThis.fetch };
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`timeout after ${timeout}ms`));
+      }, timeout);
+    });
+    
+    const request = async (): Promise<RemoteResponse> => {
+      const response = await fetcher.fetch(url, {
+        headers: { 'Accept': 'application/json', ...headers },
+        cache: 'no-cache',
+        signal: controller.signal,
+      });
+      return { response, body: await response.text() };
+    };
+    
+    try {
+      return await Promise.race([request(), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  
+  /**
+   * Fetch the remote manifest, revalidating the stored copy
+   * Returns null when the server does not publish a manifest
+   */
+  private async fetchManifest(): Promise<RemoteManifest | null> {
+    const stored = await this.readJson<StoredManifest>(STORAGE_KEYS.REMOTE_MANIFEST);
+    const { response, body: manifestJson } = await this.fetchRemote(
+      'manifest.json',
+      buildConditionalHeaders(stored)
+    );
+    
+    if (response.status === 304 && stored) {
+      this.logger.log('Remote manifest not modified');
+      return stored.manifest;
+    }
+    
+    if (response.status === 404) {
+      this.logger.log('No remote manifest published');
+      return null;
+    }
+    
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    
+    await this.verifySignature('manifest.json', manifestJson, 'manifest');
+    
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(manifestJson);
+    } catch {
+      this.rejectRemote('manifest is not valid JSON');
+    }
+    if (!isRemoteManifest(manifest)) {
+      this.rejectRemote('manifest has an invalid structure');
+    }
+    
+    await this.storage.setItem(
+      STORAGE_KEYS.REMOTE_MANIFEST,
+      JSON.stringify({ manifest, ...readValidators(response) } as StoredManifest)
+    );
+    return manifest;
+  }
+  
+  /**
+   * Fetch a full remote bundle, revalidating the cached copy
+   */
+  private async fetchRemoteBundle(
+    language: string,
+    path: string,
+    entry: RemoteLanguageEntry | undefined,
+    cached: RemoteLayer | null
+  ): Promise<RemoteLayer | null> {
+    const meta = cached ? await this.readJson<RemoteCacheMeta>(STORAGE_KEYS.REMOTE_META(language)) : null;
+    const { response, body } = await this.fetchRemote(path, buildConditionalHeaders(meta));
+    
+    if (response.status === 304 && cached) {
+      this.logger.log('Remote translations not modified');
+      await this.touchRemoteCache(language);
+      return cached;
+    }
+    
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    
+    const data: unknown = JSON.parse(body);
+    await this.verifyRemoteBundle(language, data, entry);
+    return this.storeRemote(language, data, { version: entry?.version, ...readValidators(response) });
+  }
+  
+  /**
+   * Fetch a delta and apply it to the cached bundle
+   * The delta is checked against its signature before it is applied, and
+   * the result against the manifest digest before it is cached.
+   */
+  private async fetchRemoteDelta(
+    language: string,
+    path: string,
+    entry: RemoteLanguageEntry,
+    cached: RemoteLayer
+  ): Promise<RemoteLayer | null> {
+    const { response, body } = await this.fetchRemote(path);
+    
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    
+    await this.verifySignature(path, body, `delta ${path}`);
+    
+    const delta: unknown = JSON.parse(body);
+    if (!isRemoteDelta(delta)) {
+      throw new Error('Invalid remote delta');
+    }
+    if (delta.from !== cached.version || delta.to !== entry.version) {
+      throw new Error(`Delta ${delta.from} → ${delta.to} does not match ${cached.version} → ${entry.version}`);
+    }
+    
+    this.logger.log(`Applying remote delta ${delta.from} → ${delta.to}`);
+    const updated = applyDelta(cached.raw, delta);
+    await this.verifyRemoteBundle(language, updated, entry);
+    
+    // Validators belong to the full bundle, so they are not carried over
+    return this.storeRemote(language, updated, { version: entry.version });
+  }
+  
+  /**
+   * Get the crypto implementation, or null if the platform has none
+   */
+  private getCrypto(): CryptoAdapter | null {
+    if (this.config.integrity?.crypto) {
+      return this.config.integrity.crypto;
+    }
+    return globalThis.crypto?.subtle ? webCryptoAdapter : null;
+  }
+  
+  /**
+   * Verify a remote file against its detached signature ({path}.sig)
+   * Only checked when a public key is pinned.
+   */
+  private async verifySignature(path: string, body: string, label: string): Promise<void> {
+    const publicKey = this.config.integrity?.publicKey;
+    if (!publicKey) {
+      return;
+    }
+    
+    const crypto = this.getCrypto();
+    if (!crypto) {
+      this.rejectRemote(`no crypto implementation available to verify the ${label} signature`);
+    }
+    
+    const { response, body: signatureBody } = await this.fetchRemote(`${path}.sig`);
+    if (!response.ok) {
+      this.rejectRemote(`${label} signature unavailable (HTTP ${response.status})`);
+    }
+    
+    const signature = signatureBody.trim();
+    let valid = false;
+    try {
+      valid = await crypto.verify(body, signature, publicKey);
+    } catch (error) {
+      this.rejectRemote(`${label} signature could not be checked: ${String(error)}`);
+    }
+    
+    if (!valid) {
+      this.rejectRemote(`${label} signature is invalid`);
+    }
+    this.logger.log(`Remote ${label} signature verified`);
+  }
+  
+  /**
+   * Verify a bundle against the manifest digest and pinned digests
+   * Must run before the bundle is sanitized and cached.
+   */
+  private async verifyRemoteBundle(
+    language: string,
+    data: unknown,
+    entry?: RemoteLanguageEntry
+  ): Promise<void> {
+    const { publicKey, pinnedHashes } = this.config.integrity ?? {};
+    const label = `${language}${entry ? ` v${entry.version}` : ''}`;
+    
+    if (!entry?.hash && !pinnedHashes?.length) {
+      if (publicKey) {
+        this.rejectRemote(`bundle ${label} has no hash in the signed manifest`);
+      }
+      return;
+    }
+    
+    const crypto = this.getCrypto();
+    if (!crypto) {
+      if (publicKey || pinnedHashes?.length) {
+        this.rejectRemote(`no crypto implementation available to verify bundle ${label}`);
+      }
+      this.logger.log(`Skipping digest check for ${label}: no crypto implementation`);
+      return;
+    }
+    
+    const digest = await computeBundleDigest(data, crypto);
+    
+    if (entry?.hash && digest !== entry.hash.toLowerCase()) {
+      this.rejectRemote(`bundle ${label} digest mismatch (expected ${entry.hash}, got ${digest})`);
+    }
+    
+    if (pinnedHashes?.length && !pinnedHashes.some(hash => hash.toLowerCase() === digest)) {
+      this.rejectRemote(`bundle ${label} digest ${digest} is not pinned`);
+    }
+    
+    this.logger.log(`Remote bundle ${label} verified`);
+  }
+  
+  /**
+   * Log why remote content was rejected and abort the update
+   * The caller falls back to the last verified cache.
+   */
+  private rejectRemote(reason: string): never {
+    this.logger.warn(`Rejected remote content: ${reason}`);
+    throw new Error(`Remote integrity check failed: ${reason}`);
+  }
+  
+  /**
+   * Cache verified remote data for the language it was fetched for
+   * The bundle is stored as verified, so later deltas and digests apply to
+   * it; sanitizing and filtering happen when the layer is built.
+   */
+  private async storeRemote(
+    language: string,
+    data: unknown,
+    meta: RemoteCacheMeta
+  ): Promise<RemoteLayer | null> {
+    const timestamp = Date.now();
+    const layer = toRemoteLayer(data, meta.version, timestamp);
+    
+    if (!layer) {
+      return null;
+    }
+    
+    await this.storage.setItem(
+      STORAGE_KEYS.REMOTE_CACHE(language),
+      JSON.stringify(layer.raw)
+    );
+    await this.storage.setItem(
+      STORAGE_KEYS.REMOTE_META(language),
+      JSON.stringify(meta)
+    );
+    await this.storage.setItem(
+      STORAGE_KEYS.REMOTE_TIMESTAMP(language),
+      timestamp.toString()
+    );
+    
+    this.emit({ type: 'remoteUpdated', language, version: meta.version });
+    return layer;
+  }
+  
+  /**
+   * Mark the cached remote data as fresh without re-downloading it
+   */
+  private async touchRemoteCache(language: string): Promise<void> {
+    await this.storage.setItem(
+      STORAGE_KEYS.REMOTE_TIMESTAMP(language),
+      Date.now().toString()
+    );
+  }
+  
+  /**
+   * Get cached remote translations
+   */
+  private async getCachedRemote(language: string = this.config.language): Promise<RemoteLayer | null> {
+    const data = await this.readJson<Record<string, unknown>>(STORAGE_KEYS.REMOTE_CACHE(language));
+    
+    if (!data) {
+      return null;
+    }
+    
+    const meta = await this.readJson<RemoteCacheMeta>(STORAGE_KEYS.REMOTE_META(language));
+    const timestamp = await this.storage.getItem(STORAGE_KEYS.REMOTE_TIMESTAMP(language));
+    
+    return toRemoteLayer(data, meta?.version, timestamp ? parseInt(timestamp, 10) : undefined);
+  }
+  
+  /**
+   * Read and parse a JSON value from storage
+   */
+  private async readJson<T>(key: string): Promise<T | null> {
+    const json = await this.storage.getItem(key);
+    
+    if (json) {
+      try {
+        return JSON.parse(json) as T;
+      } catch {
+        return null;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Load local patches (universal + language-specific) as separate layers
+   */
+  private async loadLocalPatches(
+    language: string = this.config.language,
+    persist: boolean = true
+  ): Promise<LayerRecord[]> {
+    const patches: LayerRecord[] = [];
+    
+    // Load installed universal patches in stack order
+    const registry = await this.readPatchRegistry();
+    let registryChanged = false;
+    
+    for (const entry of registry) {
+      if (!entry.enabled) {
+        this.logger.log(`Skipping disabled patch: ${entry.id}`);
+        continue;
+      }
+      
+      const patch = await this.readInstalledPatch(entry.id);
+      if (!patch) {
+        this.logger.warn(`Installed patch missing from storage: ${entry.id}`);
+        continue;
+      }
+      
+      // Validate patch structure and game version compatibility
+      const validation = validatePatch(patch, { gameVersion: this.config.gameVersion });
+      if (!validation.valid) {
+        const incompatible = validation.errors.find(e => e.code === 'INCOMPATIBLE_GAME_VERSION');
+        if (incompatible && persist) {
+          // Typically after a game update: keep the patch installed but stop applying it
+          this.logger.warn(`Disabling patch ${entry.id}: ${incompatible.message}`);
+          entry.enabled = false;
+          entry.disabledReason = incompatible.message;
+          registryChanged = true;
+          this.emit({ type: 'patchToggled', id: entry.id, enabled: false });
+        } else {
+          this.logger.warn(`Patch ${entry.id} validation failed:`, validation.errors);
+        }
+        continue;
+      }
+      
+      patches.push(...this.buildPatchLayers(entry.id, patch, language));
+    }
+    
+    if (registryChanged) {
+      await this.writePatchRegistry(registry);
+    }
+    
+    // Load standalone language-specific patches (parent language first)
+    for (const tag of getLanguageLineage(language)) {
+      const langPatchJson = await this.storage.getItem(
+        STORAGE_KEYS.LOCAL_PATCH(tag)
+      );
+      
+      if (langPatchJson) {
+        try {
+          const parsed = JSON.parse(langPatchJson);
+          const sanitized = sanitizePatch(parsed);
+          if (sanitized) {
+            patches.push({ label: `languagePatch:${tag}`, data: filterProtectedNamespaces(sanitized) });
+          }
+        } catch (error) {
+          this.logger.warn(`Failed to parse language patch (${tag}):`, error);
+        }
+      }
+    }
+    
+    return patches;
+  }
+  
+  /**
+   * Find keys set by more than one override source (remote, installed
+   * patches, standalone language patches) for the current language
+   * Pass a candidate patch for a dry run before installing it: its layers
+   * are placed where installPatch would put them, and `overrides` counts
+   * the keys it would take over from each other source.
+   */
+  async analyzeConflicts(candidate?: UniversalPatch): Promise<ConflictReport> {
+    const layers: LayerRecord[] = [];
+    let validation: ValidationResult | undefined;
+    let candidateSource: string | undefined;
+    
+    const remote = this.config.remoteBaseUrl ? await this.getCachedRemote() : null;
+    if (remote) {
+      layers.push({ label: 'remote', data: remote.data });
+    }
+    
+    // Read-only: incompatible patches are skipped, not disabled
+    let patchLayers = await this.loadLocalPatches(undefined, false);
+    
+    if (candidate) {
+      validation = validatePatch(candidate, { gameVersion: this.config.gameVersion });
+      if (!validation.valid) {
+        return { conflicts: [], validation, overrides: {} };
+      }
+      
+      const id = resolvePatchId(candidate.metadata, await this.readPatchRegistry());
+      candidateSource = `patch:${id}`;
+      patchLayers = this.placeCandidateLayers(patchLayers, id, candidate);
+    }
+    
+    layers.push(...patchLayers);
+    
+    // Collect every layer's value per key
+    const valuesByKey = new Map<string, LayerValue[]>();
+    for (const layer of layers) {
+      forEachLeaf(layer.data, '', (path, value) => {
+        const values = valuesByKey.get(path) ?? [];
+        values.push({ layer: layer.label, value });
+        valuesByKey.set(path, values);
+      });
+    }
+    
+    const conflicts: PatchConflict[] = [];
+    const overrides: Record<string, number> = {};
+    
+    for (const [key, values] of valuesByKey) {
+      // A patch's universal and language sections setting the same key is intentional
+      const sources = new Set(values.map(v => getLayerSource(v.layer)));
+      if (sources.size < 2) {
+        continue;
+      }
+      
+      const winner = values[values.length - 1].layer;
+      conflicts.push({
+        key,
+        values,
+        winner,
+        identical: values.every(v => JSON.stringify(v.value) === JSON.stringify(values[0].value)),
+      });
+      
+      if (candidateSource && getLayerSource(winner) === candidateSource) {
+        for (const source of sources) {
+          if (source !== candidateSource) {
+            overrides[source] = (overrides[source] ?? 0) + 1;
+          }
+        }
+      }
+    }
+    
+    return { conflicts, validation, overrides };
+  }
+  
+  /**
+   * Put a candidate patch's layers where installPatch would: upgrades keep
+   * their stack position, new patches go on top of the installed stack
+   * (below standalone language patches)
+   */
+  private placeCandidateLayers(
+    layers: LayerRecord[],
+    id: string,
+    candidate: UniversalPatch,
+    language: string = this.config.language
+  ): LayerRecord[] {
+    const isCandidate = (layer: LayerRecord) => getLayerSource(layer.label) === `patch:${id}`;
+    
+    const existingIndex = layers.findIndex(isCandidate);
+    const remaining = layers.filter(layer => !isCandidate(layer));
+    const firstLanguagePatch = remaining.findIndex(layer => layer.label.startsWith('languagePatch:'));
+    const insertAt = existingIndex >= 0
+      ? existingIndex
+      : firstLanguagePatch >= 0 ? firstLanguagePatch : remaining.length;
+    
+    remaining.splice(insertAt, 0, ...this.buildPatchLayers(id, candidate, language));
+    return remaining;
+  }
+  
+  /**
+   * Preview a patch without installing it
+   * Validates, sanitizes and filters the patch like installPatch, merges it
+   * in memory where it would sit in the layer stack and reports every key
+   * whose value changes, including templates whose {{ref:}} targets change.
+   * Storage and the loaded translations are not modified.
+   */
+  async previewPatch(patch: UniversalPatch, language: string = this.config.language): Promise<PatchPreview> {
+    const tag = normalizeLanguageTag(language);
+    const validation = validatePatch(patch, { gameVersion: this.config.gameVersion });
+    
+    if (!validation.valid) {
+      return { language: tag, validation, translations: null, changes: [] };
+    }
+    
+    // The current language previews against the live layers (including
+    // lazily merged namespaces); other languages are assembled from storage
+    const live = tag === this.config.language && this.lastLayers.length > 0;
+    let layers: LayerRecord[];
+    
+    if (live) {
+      layers = this.lastLayers;
+    } else {
+      layers = [...this.getFallbackChain(tag)].reverse().map(bundleLanguage => ({
+        label: `bundle:${bundleLanguage}`,
+        data: this.bundleTranslations.get(bundleLanguage),
+      }));
+      const remote = this.config.remoteBaseUrl ? await this.getCachedRemote(tag) : null;
+      if (remote) {
+        layers.push({ label: 'remote', data: remote.data });
+      }
+      layers.push(...await this.loadLocalPatches(tag, false));
+    }
+    
+    const id = resolvePatchId(patch.metadata, await this.readPatchRegistry());
+    const before = this.mergeLayers(layers, live);
+    const after = this.mergeLayers(this.placeCandidateLayers(layers, id, patch, tag), live);
+    
+    const changes: PreviewChange[] = [];
+    const changedKeys = new Set<string>();
+    forEachLeaf(after, '', (key, value) => {
+      const previous = getNestedValue(before, key);
+      if (JSON.stringify(previous) !== JSON.stringify(value)) {
+        changes.push({ key, before: previous, after: value });
+        changedKeys.add(key);
+      }
+    });
+    
+    // Templates that reference changed keys render differently too
+    forEachLeaf(after, '', (key, value) => {
+      if (typeof value !== 'string' || changedKeys.has(key) || !value.includes('{{ref:')) {
+        return;
+      }
+      
+      const references = Array.from(value.matchAll(/\{\{ref:([a-zA-Z0-9_.]+)\}\}/g), match => match[1])
+        .filter(ref => Array.from(changedKeys).some(changed => changed === ref || changed.startsWith(`${ref}.`)));
+      if (references.length === 0) {
+        return;
+      }
+      
+      const rendered = interpolate(value, {}, after, false, undefined, tag);
+      const previous = interpolate(value, {}, before, false, undefined, tag);
+      if (rendered !== previous) {
+        changes.push({ key, before: previous, after: rendered, references });
+      }
+    });
+    
+    return { language: tag, validation, translations: after, changes };
+  }
+  
+  /**
+   * Merge layer records, optionally with the lazily merged namespaces
+   */
+  private mergeLayers(layers: LayerRecord[], includeLazy: boolean): Record<string, unknown> {
+    let merged: Record<string, unknown> = {};
+    
+    for (const layer of layers) {
+      if (layer.data) {
+        merged = deepMerge(merged, layer.data);
+      }
+      if (includeLazy && layer.language) {
+        for (const namespace of this.mergedNamespaces) {
+          const value = this.namespaceValues.get(`${layer.language}:${namespace}`);
+          if (value !== undefined) {
+            merged = deepMerge(merged, { [namespace]: value });
+          }
+        }
+      }
+    }
+    
+    return merged;
+  }
+  
+  /**
+   * Sanitize a universal patch into layers for a language (default: current)
+   */
+  private buildPatchLayers(
+    id: string,
+    patch: UniversalPatch,
+    language: string = this.config.language
+  ): LayerRecord[] {
+    const layers: LayerRecord[] = [];
+    
+    // 1. Apply universal section first (to all languages)
+    if (patch.universal) {
+      const sanitized = sanitizePatch(patch.universal);
+      if (sanitized) {
+        layers.push({ label: `patch:${id}`, data: filterProtectedNamespaces(sanitized) });
+      }
+    }
+    
+    // 2. Apply languages[language] on top (language-specific overrides),
+    //    parent language first so regional variants override it.
+    //    Keys are matched normalized, so 'pt_pt' applies to pt-PT.
+    const sections = new Map<string, Record<string, unknown>>();
+    for (const [key, section] of Object.entries(patch.languages ?? {})) {
+      sections.set(normalizeLanguageTag(key), section);
+    }
+    
+    for (const tag of getLanguageLineage(language)) {
+      const section = sections.get(tag);
+      if (section) {
+        const sanitized = sanitizePatch(section);
+        if (sanitized) {
+          layers.push({
+            label: `patch:${id}:${tag}`,
+            data: filterProtectedNamespaces(sanitized as Record<string, unknown>),
+          });
+        }
+      }
+    }
+    
+    return layers;
+  }
+  
+  /**
+   * Apply a universal patch
+   * Installs it on top of the patch stack (or upgrades it in place if a
+   * patch with the same name is already installed)
+   */
+  async applyUniversalPatch(patch: UniversalPatch): Promise<ValidationResult> {
+    return this.installPatch(patch);
+  }
+  
+  /**
+   * Install a universal patch into the registry
+   * New patches go to the top of the stack; re-installing an existing
+   * patch keeps its position and enabled state
+   */
+  async installPatch(patch: UniversalPatch): Promise<ValidationResult> {
+    const validation = validatePatch(patch, { gameVersion: this.config.gameVersion });
+    
+    if (!validation.valid) {
+      return validation;
+    }
+    
+    if (!patch.metadata.name.trim()) {
+      return {
+        valid: false,
+        errors: [{ path: 'metadata.name', message: 'Name must not be blank', code: 'INVALID_NAME' }],
+        warnings: validation.warnings,
+      };
     }
     
-    // Merge all layers
-    const mergedData = layers.reduce(
-      (acc, layer) => deepMerge(acc, layer as Record<string, unknown>),
-      {} as Record<string, unknown>
-    );
-    
-    this.lastLoadedData = mergedData;
+    const id = resolvePatchId(patch.metadata, await this.readPatchRegistry());
     
-    // Clear interpolation cache when translations change
-    clearInterpolationCache();
+    await this.savePatchHistory('universal', id, 'replaced');
+    const existing = await this.storeInstalledPatch(id, patch);
     
-    return {
-      data: mergedData,
-      sources,
-      language,
-      loadedAt: Date.now(),
-    };
+    this.clearInterpolationCaches();
+    this.logger.log(
+      `Patch ${existing ? 'updated' : 'installed'}: ${patch.metadata.name} v${patch.metadata.version}`
+    );
+    this.emit({ type: 'patchInstalled', scope: 'universal', id, metadata: patch.metadata });
+    this.scheduleReload();
+    return validation;
   }
   
   /**
-   * Load remote translations with caching
+   * Import a patch pack (zip, tar or tar.gz) as one patch
+   * Every file is validated before anything is stored, so a pack with a
+   * single bad file installs nothing.
    */
-  private async loadRemoteTranslations(): Promise<Record<string, unknown> | null> {
-    const { language, remoteBaseUrl, cacheDuration } = this.config;
+  async importPatchPack(
+    data: ArrayBuffer | Uint8Array,
+    options: { inflate?: InflateFunction } = {}
+  ): Promise<PatchPackResult> {
+    const result = await unpackPatchPack(data, { ...options, gameVersion: this.config.gameVersion });
     
-    if (!remoteBaseUrl) {
-      return null;
+    if (!result.valid || !result.patch) {
+      this.logger.warn(`Patch pack rejected with ${result.errors.length} error(s)`);
+      return result;
     }
     
-    // Check cache freshness
-    const cachedTimestamp = await this.storage.getItem(
-      STORAGE_KEYS.REMOTE_TIMESTAMP(language)
-    );
+    const validation = await this.installPatch(result.patch);
+    return {
+      ...result,
+      valid: validation.valid,
+      errors: validation.errors,
+      patch: validation.valid ? result.patch : undefined,
+    };
+  }
+  
+  /**
+   * Write a patch body and add or update its registry entry
+   * Returns true if the patch was already installed.
+   */
+  private async storeInstalledPatch(id: string, patch: UniversalPatch): Promise<boolean> {
+    const registry = await this.readPatchRegistry();
+    const now = Date.now();
+    const existing = registry.find(entry => entry.id === id);
     
-    if (cachedTimestamp) {
-      const age = Date.now() - parseInt(cachedTimestamp, 10);
-      if (age < (cacheDuration ?? DEFAULT_CONFIG.cacheDuration!)) {
-        this.logger.log('Using cached remote translations (still fresh)');
-        return this.getCachedRemote();
+    if (existing) {
+      existing.metadata = patch.metadata;
+      existing.updatedAt = now;
+      if (existing.disabledReason) {
+        // A compatible update re-enables a patch the loader had disabled
+        existing.enabled = true;
+        existing.disabledReason = undefined;
       }
+    } else {
+      registry.push({
+        id,
+        metadata: patch.metadata,
+        enabled: true,
+        installedAt: now,
+        updatedAt: now,
+      });
     }
     
-    // Fetch fresh data
-    const url = `${remoteBaseUrl}/${language}/content.json`;
-    this.logger.log(`Fetching remote translations: ${url}`);
-    
-    const fetcher = this.config.fetcher ?? { fetch: globalThis.fetch };
-    const response = await fetcher.fetch(url, {
-      headers: { 'Accept': 'application/json' },
-      cache: 'no-cache',
-    });
+    await this.storage.setItem(STORAGE_KEYS.PATCH_ENTRY(id), JSON.stringify(patch));
+    await this.writePatchRegistry(registry);
+    return !!existing;
+  }
+  
+  /**
+   * Remove an installed patch from the registry
+   * Returns false if no patch with that id is installed
+   */
+  async uninstallPatch(id: string): Promise<boolean> {
+    const registry = await this.readPatchRegistry();
+    const remaining = registry.filter(entry => entry.id !== id);
     
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    if (remaining.length === registry.length) {
+      return false;
     }
     
-    const data = await response.json();
-    
-    // Sanitize and cache
-    const sanitized = sanitizePatch(data);
-    if (sanitized) {
-      const filtered = filterProtectedNamespaces(sanitized);
-      await this.storage.setItem(
-        STORAGE_KEYS.REMOTE_CACHE(language),
-        JSON.stringify(filtered)
-      );
-      await this.storage.setItem(
-        STORAGE_KEYS.REMOTE_TIMESTAMP(language),
-        Date.now().toString()
-      );
-      return filtered;
-    }
+    await this.savePatchHistory('universal', id, 'removed');
+    await this.storage.removeItem(STORAGE_KEYS.PATCH_ENTRY(id));
+    await this.writePatchRegistry(remaining);
     
-    return null;
+    this.clearInterpolationCaches();
+    this.logger.log(`Patch uninstalled: ${id}`);
+    this.emit({ type: 'patchRemoved', scope: 'universal', id });
+    this.scheduleReload();
+    return true;
   }
   
   /**
-   * Get cached remote translations
+   * Enable or disable an installed patch without removing it
+   * Returns false if the patch is not installed, or cannot be enabled
+   * because it is incompatible with the running game version.
    */
-  private async getCachedRemote(): Promise<Record<string, unknown> | null> {
-    const { language } = this.config;
-    const cached = await this.storage.getItem(STORAGE_KEYS.REMOTE_CACHE(language));
+  async setPatchEnabled(id: string, enabled: boolean): Promise<boolean> {
+    const registry = await this.readPatchRegistry();
+    const entry = registry.find(e => e.id === id);
     
-    if (cached) {
-      try {
-        return JSON.parse(cached);
-      } catch {
-        return null;
+    if (!entry) {
+      return false;
+    }
+    
+    if (enabled) {
+      const patch = await this.readInstalledPatch(entry.id);
+      const validation = validatePatch(patch, { gameVersion: this.config.gameVersion });
+      if (!validation.valid) {
+        this.logger.warn(`Cannot enable patch ${id}:`, validation.errors.map(e => e.message).join('; '));
+        return false;
       }
+      entry.disabledReason = undefined;
     }
     
-    return null;
+    entry.enabled = enabled;
+    await this.writePatchRegistry(registry);
+    
+    this.logger.log(`Patch ${enabled ? 'enabled' : 'disabled'}: ${id}`);
+    this.emit({ type: 'patchToggled', id, enabled });
+    this.scheduleReload();
+    return true;
   }
   
   /**
-   * Load local patches (universal + language-specific)
+   * Reorder the patch stack
+   * The first id is applied first (lowest priority), the last one wins.
+   * Installed patches missing from `ids` keep their relative order at the end.
    */
-  private async loadLocalPatches(): Promise<Record<string, unknown> | null> {
-    const { language } = this.config;
-    const patches: Record<string, unknown>[] = [];
-    
-    // Load universal patch
-    const universalPatchJson = await this.storage.getItem(
-      STORAGE_KEYS.UNIVERSAL_PATCH
-    );
+  async reorderPatches(ids: string[]): Promise<void> {
+    const registry = await this.readPatchRegistry();
+    const byId = new Map(registry.map(entry => [entry.id, entry]));
+    const reordered: InstalledPatch[] = [];
     
-    if (universalPatchJson) {
-      try {
-        const parsed = JSON.parse(universalPatchJson) as UniversalPatch;
-        
-        // Validate patch structure
-        const validation = validatePatch(parsed);
-        if (!validation.valid) {
-          this.logger.warn('Universal patch validation failed:', validation.errors);
-        } else {
-          // 1. Apply universal section first (to all languages)
-          if (parsed.universal) {
-            const sanitized = sanitizePatch(parsed.universal);
-            if (sanitized) {
-              patches.push(filterProtectedNamespaces(sanitized));
-            }
-          }
-          
-          // 2. Apply languages[currentLanguage] on top (language-specific overrides)
-          if (parsed.languages?.[language]) {
-            const sanitized = sanitizePatch(parsed.languages[language]);
-            if (sanitized) {
-              patches.push(filterProtectedNamespaces(sanitized as Record<string, unknown>));
-            }
-          }
-        }
-      } catch (error) {
-        this.logger.warn('Failed to parse universal patch:', error);
+    for (const id of ids) {
+      const entry = byId.get(id);
+      if (entry) {
+        reordered.push(entry);
+        byId.delete(id);
+      } else {
+        this.logger.warn(`Cannot reorder unknown patch: ${id}`);
       }
     }
     
-    // Load standalone language-specific patch
-    const langPatchJson = await this.storage.getItem(
-      STORAGE_KEYS.LOCAL_PATCH(language)
-    );
+    reordered.push(...byId.values());
+    await this.writePatchRegistry(reordered);
+    
+    const order = reordered.map(e => e.id);
+    this.logger.log(`Patch order updated: ${order.join(', ')}`);
+    this.emit({ type: 'patchesReordered', order });
+    this.scheduleReload();
+  }
+  
+  /**
+   * Get installed patches in stack order
+   */
+  async getInstalledPatches(): Promise<InstalledPatch[]> {
+    return this.readPatchRegistry();
+  }
+  
+  /**
+   * Read the patch registry (an unreadable registry reads as empty)
+   */
+  private async readPatchRegistry(): Promise<InstalledPatch[]> {
+    const registryJson = await this.storage.getItem(STORAGE_KEYS.PATCH_REGISTRY);
+    let registry: InstalledPatch[] = [];
     
-    if (langPatchJson) {
+    if (registryJson) {
       try {
-        const parsed = JSON.parse(langPatchJson);
-        const sanitized = sanitizePatch(parsed);
-        if (sanitized) {
-          patches.push(filterProtectedNamespaces(sanitized));
+        const parsed = JSON.parse(registryJson);
+        if (Array.isArray(parsed)) {
+          registry = parsed;
         }
       } catch (error) {
-        this.logger.warn('Failed to parse language patch:', error);
+        this.logger.warn('Failed to parse patch registry:', error);
       }
     }
     
-    // Merge all patches
-    if (patches.length === 0) {
-      return null;
-    }
-    
-    return patches.reduce(
-      (acc, patch) => deepMerge(acc, patch),
-      {} as Record<string, unknown>
-    );
+    return registry;
   }
   
   /**
-   * Apply a universal patch
+   * Persist the patch registry
    */
-  async applyUniversalPatch(patch: UniversalPatch): Promise<ValidationResult> {
-    const validation = validatePatch(patch);
-    
-    if (!validation.valid) {
-      return validation;
+  private async writePatchRegistry(registry: InstalledPatch[]): Promise<void> {
+    await this.storage.setItem(STORAGE_KEYS.PATCH_REGISTRY, JSON.stringify(registry));
+  }
+  
+  /**
+   * Read an installed patch body
+   */
+  private async readInstalledPatch(id: string): Promise<UniversalPatch | null> {
+    const json = await this.storage.getItem(STORAGE_KEYS.PATCH_ENTRY(id));
+    if (!json) {
+      return null;
     }
     
-    await this.storage.setItem(
-      STORAGE_KEYS.UNIVERSAL_PATCH,
-      JSON.stringify(patch)
-    );
-    
-    this.logger.log('Universal patch applied successfully');
-    return validation;
+    try {
+      return JSON.parse(json) as UniversalPatch;
+    } catch (error) {
+      this.logger.warn(`Failed to parse patch ${id}:`, error);
+      return null;
+    }
   }
   
   /**
@@ -399,6 +2155,7 @@ export class TranslationLoader {
     language: string,
     patch: Record<string, unknown>
   ): Promise<ValidationResult> {
+    language = normalizeLanguageTag(language);
     const wrappedPatch = {
       metadata: {
         version: '1.0.0',
@@ -424,26 +2181,180 @@ export class TranslationLoader {
       };
     }
     
+    await this.savePatchHistory('language', language, 'replaced');
     await this.storage.setItem(
       STORAGE_KEYS.LOCAL_PATCH(language),
       JSON.stringify(filterProtectedNamespaces(sanitized))
     );
     
+    this.clearInterpolationCaches();
     this.logger.log(`Language patch applied for: ${language}`);
+    this.emit({ type: 'patchInstalled', scope: 'language', id: language });
+    this.scheduleReload();
     return validation;
   }
   
   /**
-   * Remove all patches
+   * Remove all installed patches and the language patches of the current
+   * language's lineage (clearing pt-PT also clears the pt patch it loads)
    */
   async clearPatches(): Promise<void> {
     const { language } = this.config;
     
-    await this.storage.removeItem(STORAGE_KEYS.UNIVERSAL_PATCH);
-    await this.storage.removeItem(STORAGE_KEYS.LOCAL_PATCH(language));
+    const registry = await this.readPatchRegistry();
+    for (const entry of registry) {
+      await this.savePatchHistory('universal', entry.id, 'cleared');
+      await this.storage.removeItem(STORAGE_KEYS.PATCH_ENTRY(entry.id));
+    }
+    // Language patches are cleared along the lineage they are loaded from
+    const lineage = getLanguageLineage(language);
+    for (const tag of lineage) {
+      await this.savePatchHistory('language', tag, 'cleared');
+    }
+    
+    await this.storage.removeItem(STORAGE_KEYS.PATCH_REGISTRY);
+    for (const tag of lineage) {
+      await this.storage.removeItem(STORAGE_KEYS.LOCAL_PATCH(tag));
+    }
     
-    clearInterpolationCache();
+    this.clearInterpolationCaches();
     this.logger.log('All patches cleared');
+    
+    for (const entry of registry) {
+      this.emit({ type: 'patchRemoved', scope: 'universal', id: entry.id });
+    }
+    for (const tag of lineage) {
+      this.emit({ type: 'patchRemoved', scope: 'language', id: tag });
+    }
+    this.scheduleReload();
+  }
+  
+  /**
+   * List previous patch versions kept for rollback, newest first
+   */
+  async listPatchHistory(): Promise<PatchHistoryEntry[]> {
+    const history = await this.readJson<PatchHistoryEntry[]>(STORAGE_KEYS.PATCH_HISTORY);
+    // History is stored oldest first; reversing keeps same-millisecond saves in order
+    return (history ?? []).slice().reverse().sort((a, b) => b.savedAt - a.savedAt);
+  }
+  
+  /**
+   * Restore a previous patch version from history
+   * The version being replaced is saved to history first, so a rollback
+   * can itself be rolled back.
+   */
+  async rollbackPatch(historyId: string): Promise<ValidationResult> {
+    const history = (await this.readJson<PatchHistoryEntry[]>(STORAGE_KEYS.PATCH_HISTORY)) ?? [];
+    const entry = history.find(h => h.id === historyId);
+    const body = entry ? await this.storage.getItem(STORAGE_KEYS.PATCH_HISTORY_ENTRY(historyId)) : null;
+    
+    if (!entry || !body) {
+      return {
+        valid: false,
+        errors: [{ path: '', message: `No patch history entry: ${historyId}`, code: 'HISTORY_NOT_FOUND' }],
+        warnings: [],
+      };
+    }
+    
+    let patch: unknown;
+    try {
+      patch = JSON.parse(body);
+    } catch (error) {
+      return {
+        valid: false,
+        errors: [{
+          path: '',
+          message: `Invalid JSON in patch history entry ${historyId}: ${error instanceof Error ? error.message : String(error)}`,
+          code: 'INVALID_JSON',
+        }],
+        warnings: [],
+      };
+    }
+    
+    const validation = entry.scope === 'universal'
+      ? validatePatch(patch, { gameVersion: this.config.gameVersion })
+      : validatePatch({ metadata: { version: '1.0.0', name: `${entry.target} patch` }, languages: { [entry.target]: patch } });
+    
+    if (!validation.valid) {
+      return validation;
+    }
+    
+    await this.savePatchHistory(entry.scope, entry.target, 'rolledBack');
+    
+    if (entry.scope === 'universal') {
+      await this.storeInstalledPatch(entry.target, patch as UniversalPatch);
+    } else {
+      await this.storage.setItem(STORAGE_KEYS.LOCAL_PATCH(entry.target), body);
+    }
+    
+    // The restored version is live again, so it leaves the history
+    const remaining = ((await this.readJson<PatchHistoryEntry[]>(STORAGE_KEYS.PATCH_HISTORY)) ?? [])
+      .filter(h => h.id !== historyId);
+    await this.storage.setItem(STORAGE_KEYS.PATCH_HISTORY, JSON.stringify(remaining));
+    await this.storage.removeItem(STORAGE_KEYS.PATCH_HISTORY_ENTRY(historyId));
+    
+    this.logger.log(`Rolled back ${entry.scope} patch ${entry.target} to ${new Date(entry.savedAt).toISOString()}`);
+    this.emit({ type: 'patchInstalled', scope: entry.scope, id: entry.target, metadata: entry.metadata });
+    this.scheduleReload();
+    return validation;
+  }
+  
+  /**
+   * Save the currently stored version of a patch to history before it is
+   * replaced or removed, keeping at most patchHistoryLimit versions per patch
+   */
+  private async savePatchHistory(
+    scope: PatchHistoryEntry['scope'],
+    target: string,
+    reason: PatchHistoryEntry['reason']
+  ): Promise<void> {
+    const limit = this.config.patchHistoryLimit ?? DEFAULT_CONFIG.patchHistoryLimit!;
+    const storageKey = scope === 'universal'
+      ? STORAGE_KEYS.PATCH_ENTRY(target)
+      : STORAGE_KEYS.LOCAL_PATCH(target);
+    const body = await this.storage.getItem(storageKey);
+    
+    if (!body || limit <= 0) {
+      return;
+    }
+    
+    let metadata: PatchMetadata | undefined;
+    if (scope === 'universal') {
+      try {
+        metadata = (JSON.parse(body) as UniversalPatch).metadata;
+      } catch {
+        // Keep the snapshot even if it no longer parses
+      }
+    }
+    
+    const entry: PatchHistoryEntry = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      scope,
+      target,
+      storageKey,
+      metadata,
+      savedAt: Date.now(),
+      reason,
+    };
+    
+    const history = (await this.readJson<PatchHistoryEntry[]>(STORAGE_KEYS.PATCH_HISTORY)) ?? [];
+    history.push(entry);
+    await this.storage.setItem(STORAGE_KEYS.PATCH_HISTORY_ENTRY(entry.id), body);
+    
+    // Drop the oldest versions of this patch beyond the limit
+    const versions = history
+      .filter(h => h.storageKey === storageKey)
+      .sort((a, b) => a.savedAt - b.savedAt);
+    const dropped = new Set(versions.slice(0, Math.max(0, versions.length - limit)).map(h => h.id));
+    
+    for (const id of dropped) {
+      await this.storage.removeItem(STORAGE_KEYS.PATCH_HISTORY_ENTRY(id));
+    }
+    
+    await this.storage.setItem(
+      STORAGE_KEYS.PATCH_HISTORY,
+      JSON.stringify(history.filter(h => !dropped.has(h.id)))
+    );
   }
   
   /**
@@ -454,16 +2365,34 @@ export class TranslationLoader {
     
     await this.storage.removeItem(STORAGE_KEYS.REMOTE_CACHE(language));
     await this.storage.removeItem(STORAGE_KEYS.REMOTE_TIMESTAMP(language));
+    await this.storage.removeItem(STORAGE_KEYS.REMOTE_META(language));
+    await this.storage.removeItem(STORAGE_KEYS.REMOTE_MANIFEST);
     
     this.logger.log('Remote cache cleared');
+    this.emit({ type: 'remoteCleared', language });
+    this.scheduleReload();
   }
   
   /**
    * Change the active language
    */
   setLanguage(language: string): void {
+    language = normalizeLanguageTag(language);
+    const previous = this.config.language;
     this.config.language = language;
     this.logger.log(`Language changed to: ${language}`);
+    
+    if (language !== previous) {
+      this.emit({ type: 'languageChanged', language, previous });
+      this.scheduleReload();
+    }
+  }
+  
+  /**
+   * Get the merged translations, including lazy namespaces merged since the last load
+   */
+  getTranslations(): Record<string, unknown> {
+    return this.lastLoadedData;
   }
   
   /**
@@ -477,20 +2406,136 @@ export class TranslationLoader {
    * Get list of all registered language codes
    */
   getRegisteredLanguages(): string[] {
-    return Array.from(this.bundleTranslations.keys());
+    return Array.from(new Set([
+      ...this.bundleTranslations.keys(),
+      ...this.namespaceLoaders.keys(),
+    ]));
   }
 
+  /**
+   * Translate a key using the last loaded translations
+   * Tries the key, then options.fallbackKeys, then options.defaultValue,
+   * and applies the missing-key policy if none of them resolves.
+   * Numbered entries (e.g., news.assistMilestone) resolve to one variant;
+   * with a count, plural keys (key_one, key_few, ..., key_other) are preferred.
+   * Bound to the loader, so it can be passed around as a plain function.
+   */
+  readonly t: TranslateFunction = (key, context = {}, options = {}) => {
+    const { language } = this.config;
+    const diagnostics = this.diagnostics;
+    const render = (template: string) => interpolate(
+      template,
+      context,
+      this.lastLoadedData,
+      this.interpolationCache,
+      diagnostics
+        ? issue => diagnostics.record(issue.type, key, language, {
+            detail: issue.type === 'brokenRef' ? issue.path : issue.name,
+            template: issue.template,
+            context,
+          })
+        : undefined,
+      language
+    );
+    const count = options.count ?? (typeof context.count === 'number' ? context.count : undefined);
+    
+    for (const candidate of [key, ...(options.fallbackKeys ?? [])]) {
+      this.accessNamespace(candidate.split('.')[0]);
+      const resolved = count !== undefined
+        ? resolvePluralKey(this.lastLoadedData, candidate, count, language)
+        : candidate;
+      const template = lookupTemplate(this.lastLoadedData, resolved, options.variant);
+      if (template !== undefined) {
+        return render(template);
+      }
+    }
+    
+    diagnostics?.record('missingKey', key, language, { context });
+    
+    if (options.defaultValue !== undefined) {
+      return render(options.defaultValue);
+    }
+    
+    return handleMissingKey(
+      key,
+      this.config.language,
+      options.missingKeyPolicy ?? this.config.missingKeyPolicy
+    );
+  };
+  
+  /**
+   * Get the diagnostics collector, or null when diagnostics are disabled
+   */
+  getDiagnostics(): DiagnosticsCollector | null {
+    return this.diagnostics;
+  }
+  
+  /**
+   * Save the diagnostics report through the storage adapter and return its JSON
+   */
+  async exportDiagnostics(): Promise<string | null> {
+    if (!this.diagnostics) {
+      this.logger.warn('Diagnostics are disabled; enable them with LoaderConfig.diagnostics');
+      return null;
+    }
+    
+    const json = await this.diagnostics.export(this.storage);
+    this.logger.log(`Diagnostics exported (${this.diagnostics.size} entries)`);
+    return json;
+  }
+  
+  /**
+   * Explain where a translation comes from
+   * Lists the key's value in every layer of the last load and which one won.
+   * Winners come from the provenance map when trackProvenance is enabled.
+   */
+  explainKey(key: string): KeyExplanation {
+    const [namespace] = key.split('.');
+    this.accessNamespace(namespace);
+    
+    const layers: LayerValue[] = [];
+    for (const layer of this.lastLayers) {
+      const lazyValue = layer.language && this.mergedNamespaces.has(namespace)
+        ? this.namespaceValues.get(`${layer.language}:${namespace}`)
+        : undefined;
+      const layerValue = getNestedValue(
+        lazyValue !== undefined ? { [namespace]: lazyValue } : {},
+        key
+      ) ?? (layer.data ? getNestedValue(layer.data, key) : undefined);
+      
+      if (layerValue !== undefined) {
+        layers.push({ layer: layer.label, value: layerValue });
+      }
+    }
+    
+    const value = getNestedValue(this.lastLoadedData, key);
+    const winner = this.config.trackProvenance
+      ? this.provenance.get(key) ?? null
+      : layers[layers.length - 1]?.layer ?? null;
+    
+    return { key, value, winner: value === undefined ? null : winner, layers };
+  }
+  
+  /**
+   * Get the provenance map of the last load (key path → winning layer)
+   * Empty unless trackProvenance is enabled.
+   */
+  getProvenance(): ReadonlyMap<string, string> {
+    return this.provenance;
+  }
+  
   /**
    * Check if a translation key exists
    */
   hasTranslation(key: string): boolean {
     if (!key) return false;
     const keys = key.split('.');
-    let current: any = this.lastLoadedData;
+    this.accessNamespace(keys[0]);
+    let current: unknown = this.lastLoadedData;
     
     for (const k of keys) {
       if (current !== null && typeof current === 'object' && k in current) {
-        current = current[k];
+        current = (current as Record<string, unknown>)[k];
       } else {
         return false;
       }
@@ -499,50 +2544,169 @@ export class TranslationLoader {
   }
 
   /**
-   * Get loaded patch info for debugging
+   * Get installed patch info for debugging and the settings screen
    */
-  async getPatchInfo(): Promise<{ universal: boolean; languageSpecific: boolean; }> {
+  async getPatchInfo(): Promise<{ patches: PatchInfo[]; languagePatch: boolean; }> {
     const { language } = this.config;
-    const universalPatchJson = await this.storage.getItem(STORAGE_KEYS.UNIVERSAL_PATCH);
-    const langPatchJson = await this.storage.getItem(STORAGE_KEYS.LOCAL_PATCH(language));
+    const registry = await this.readPatchRegistry();
+    const patches: PatchInfo[] = [];
+    let languagePatch = false;
     
-    let hasUniversal = false;
-    let hasLanguageSpecific = !!langPatchJson;
-    
-    if (universalPatchJson) {
-      try {
-        const parsed = JSON.parse(universalPatchJson) as UniversalPatch;
-        hasUniversal = !!parsed.universal;
-        if (parsed.languages?.[language]) {
-          hasLanguageSpecific = true;
-        }
-      } catch {
-        // Ignore
+    for (const tag of getLanguageLineage(language)) {
+      if (await this.storage.getItem(STORAGE_KEYS.LOCAL_PATCH(tag))) {
+        languagePatch = true;
       }
     }
     
+    for (const [order, entry] of registry.entries()) {
+      const patch = await this.readInstalledPatch(entry.id);
+      patches.push({
+        id: entry.id,
+        name: entry.metadata.name,
+        version: entry.metadata.version,
+        author: entry.metadata.author,
+        enabled: entry.enabled,
+        disabledReason: entry.disabledReason,
+        compatibleGameVersion: entry.metadata.compatibleGameVersion,
+        order,
+        installedAt: entry.installedAt,
+        updatedAt: entry.updatedAt,
+        universal: !!patch?.universal,
+        languageSpecific: getLanguageLineage(language).some(tag => !!patch?.languages?.[tag]),
+      });
+    }
+    
     return {
-      universal: hasUniversal,
-      languageSpecific: hasLanguageSpecific
+      patches,
+      languagePatch,
     };
   }
 }
 
 /**
- * Create a singleton loader instance
+ * Registry of isolated loaders keyed by language or purpose
+ * (e.g., the UI loader plus an English one for share cards)
+ * Loaders share registered bundles, namespace loaders and storage, but
+ * each keeps its own language, merged data, listeners and interpolation cache.
+ */
+export class LoaderRegistry {
+  private readonly baseConfig: LoaderConfig;
+  private readonly shared: SharedLoaderState;
+  private readonly loaders: Map<string, TranslationLoader> = new Map();
+  
+  constructor(config: LoaderConfig) {
+    this.baseConfig = config;
+    this.shared = createSharedState(config.storage, createLogger(config.debug ?? false));
+  }
+  
+  /**
+   * Register bundle translations for every loader in the registry
+   */
+  registerBundle(language: string, translations: Record<string, unknown>): void {
+    this.shared.bundles.set(normalizeLanguageTag(language), translations);
+  }
+  
+  /**
+   * Register lazy namespace loaders for every loader in the registry
+   * Existing loaders also drop the values they resolved from the loaders
+   * being replaced.
+   */
+  registerNamespaces(language: string, loaders: Record<string, NamespaceLoader>): void {
+    if (this.loaders.size === 0) {
+      const tag = normalizeLanguageTag(language);
+      const existing = this.shared.namespaceLoaders.get(tag) ?? new Map<string, NamespaceLoader>();
+      for (const [namespace, loader] of Object.entries(loaders)) {
+        existing.set(namespace, loader);
+      }
+      this.shared.namespaceLoaders.set(tag, existing);
+      return;
+    }
+    
+    // Each loader writes to the shared map and clears its own memoized values
+    for (const loader of this.loaders.values()) {
+      loader.registerNamespaces(language, loaders);
+    }
+  }
+  
+  /**
+   * Get the loader for a key, creating it on first use
+   * New loaders use the base config with `overrides` applied; when the key
+   * is a language tag and no language is given, it is used as the language
+   * (registry.get('en') is an English loader).
+   */
+  get(key: string, overrides: Partial<LoaderConfig> = {}): TranslationLoader {
+    let loader = this.loaders.get(key);
+    
+    if (!loader) {
+      const language = overrides.language
+        ?? (key !== DEFAULT_LOADER_KEY && isValidLanguageTag(key) ? key : this.baseConfig.language);
+      loader = new TranslationLoader({ ...this.baseConfig, ...overrides, language }, this.shared);
+      this.loaders.set(key, loader);
+    }
+    
+    return loader;
+  }
+  
+  /**
+   * Check if a loader exists for a key
+   */
+  has(key: string): boolean {
+    return this.loaders.has(key);
+  }
+  
+  /**
+   * Drop a loader (its listeners are not notified)
+   */
+  remove(key: string): boolean {
+    return this.loaders.delete(key);
+  }
+  
+  /**
+   * Keys of the loaders created so far
+   */
+  keys(): string[] {
+    return Array.from(this.loaders.keys());
+  }
+  
+  /**
+   * Reload every loader (e.g., after installing a patch through one of them)
+   */
+  async reloadAll(): Promise<void> {
+    await Promise.all(Array.from(this.loaders.values(), loader => loader.loadTranslations()));
+  }
+}
+
+// Key of the loader returned by initializeLoader() / getLoader()
+const DEFAULT_LOADER_KEY = 'default';
+
+/**
+ * Default registry used by initializeLoader / getLoader
  */
-let loaderInstance: TranslationLoader | null = null;
+let defaultRegistry: LoaderRegistry | null = null;
 
+/**
+ * Create the default registry and return its main loader
+ */
 export function initializeLoader(config: LoaderConfig): TranslationLoader {
-  loaderInstance = new TranslationLoader(config);
-  return loaderInstance;
+  defaultRegistry = new LoaderRegistry(config);
+  return defaultRegistry.get(DEFAULT_LOADER_KEY);
+}
+
+/**
+ * Get the main loader, or another loader of the default registry by key
+ */
+export function getLoader(key: string = DEFAULT_LOADER_KEY): TranslationLoader {
+  return getLoaderRegistry().get(key);
 }
 
-export function getLoader(): TranslationLoader {
-  if (!loaderInstance) {
+/**
+ * Get the default registry
+ */
+export function getLoaderRegistry(): LoaderRegistry {
+  if (!defaultRegistry) {
     throw new Error('Translation loader not initialized. Call initializeLoader() first.');
   }
-  return loaderInstance;
+  return defaultRegistry;
 }
 
 export default TranslationLoader;
@@ -0,0 +1,67 @@
+/**
+ * Language Tag Utilities
+ *
+ * Handles BCP 47 language tags so regional variants (pt-BR, pt-PT,
+ * es-MX, fr-CA) can be layered as sparse overlays on their base bundle.
+ */
+
+/**
+ * Loose BCP 47 pattern: language, optional script, optional region
+ * (e.g., 'pt', 'pt-BR', 'zh-Hant-TW', 'es-419')
+ */
+const LANGUAGE_TAG_REGEX = /^[a-z]{2,3}(-[A-Z][a-z]{3})?(-([A-Z]{2}|\d{3}))?$/;
+
+/**
+ * Normalizes a language tag to canonical casing
+ * 'PT_br' → 'pt-BR', 'zh-hant-tw' → 'zh-Hant-TW'
+ */
+export function normalizeLanguageTag(tag: string): string {
+  const parts = tag.trim().replace(/_/g, '-').split('-').filter(Boolean);
+
+  if (parts.length === 0) {
+    return '';
+  }
+
+  return parts
+    .map((part, index) => {
+      if (index === 0) return part.toLowerCase();
+      if (part.length === 4) return part[0].toUpperCase() + part.slice(1).toLowerCase();
+      return part.toUpperCase();
+    })
+    .join('-');
+}
+
+/**
+ * Checks if a string is a well-formed (normalized) language tag
+ */
+export function isValidLanguageTag(tag: string): boolean {
+  return LANGUAGE_TAG_REGEX.test(tag);
+}
+
+/**
+ * Gets the parent tag of a regional variant
+ * 'pt-PT' → 'pt', 'zh-Hant-TW' → 'zh-Hant', 'pt' → null
+ */
+export function getParentLanguage(tag: string): string | null {
+  const normalized = normalizeLanguageTag(tag);
+  const index = normalized.lastIndexOf('-');
+  return index > 0 ? normalized.slice(0, index) : null;
+}
+
+/**
+ * Gets a tag and all of its ancestors, most generic first
+ * 'zh-Hant-TW' → ['zh', 'zh-Hant', 'zh-Hant-TW']
+ */
+export function getLanguageLineage(tag: string): string[] {
+  const lineage: string[] = [];
+  let current: string | null = normalizeLanguageTag(tag);
+
+  while (current) {
+    lineage.unshift(current);
+    current = getParentLanguage(current);
+  }
+
+  return lineage;
+}
+
+export default normalizeLanguageTag;
@@ -0,0 +1,119 @@
+/**
+ * Locale Bundle Builder
+ *
+ * Builds a locale entry point from its JSON files. Eager files are merged
+ * into the bundle right away; lazy files are only imported when one of
+ * their namespaces is first accessed, via registerNamespaces:
+ *
+ *   const { translations, namespaces } = createLocaleBundle([
+ *     ui,
+ *     events,
+ *     { namespaces: ['news'], load: () => import('./news.json') },
+ *   ]);
+ *   loader.registerBundle('en', translations);
+ *   loader.registerNamespaces('en', namespaces);
+ *
+ * Files are merged in list order, one level deep (later files override
+ * keys of earlier ones), whether they are eager or lazy.
+ */
+
+import type { NamespaceLoader } from './loader';
+
+/**
+ * Parsed locale JSON file
+ */
+export type LocaleFile = Record<string, unknown>;
+
+/**
+ * Locale file loaded on first access of one of its namespaces
+ */
+export interface LazyLocaleFile {
+  /** Top-level keys the file defines */
+  namespaces: string[];
+  load: () => Promise<LocaleFile | { default: LocaleFile }>;
+}
+
+/**
+ * Eager bundle plus loaders for the lazy namespaces
+ */
+export interface LocaleBundle {
+  translations: Record<string, unknown>;
+  namespaces: Record<string, NamespaceLoader>;
+}
+
+/**
+ * Checks if a list entry is a lazy file
+ */
+function isLazyFile(file: LocaleFile | LazyLocaleFile): file is LazyLocaleFile {
+  return typeof (file as LazyLocaleFile).load === 'function' && Array.isArray(file.namespaces);
+}
+
+/**
+ * Merges locale files one level deep, later files winning
+ */
+export function mergeLocaleFiles(files: LocaleFile[]): Record<string, unknown> {
+  return files.reduce<Record<string, unknown>>((acc, file) => {
+    for (const [key, value] of Object.entries(file)) {
+      const previous = acc[key];
+      acc[key] = value && typeof value === 'object' && !Array.isArray(value)
+        ? { ...(previous && typeof previous === 'object' ? previous : {}), ...value }
+        : value;
+    }
+    return acc;
+  }, {});
+}
+
+/**
+ * Builds the eager bundle and namespace loaders from an ordered file list
+ * A namespace defined by a lazy file is left out of the eager bundle
+ * entirely; its loader merges every file's part of it in list order, so
+ * the result matches merging all files up front.
+ */
+export function createLocaleBundle(files: Array<LocaleFile | LazyLocaleFile>): LocaleBundle {
+  const lazyNamespaces = new Set(files.filter(isLazyFile).flatMap(file => file.namespaces));
+
+  const eager = mergeLocaleFiles(files.filter((file): file is LocaleFile => !isLazyFile(file)));
+  for (const namespace of lazyNamespaces) {
+    delete eager[namespace];
+  }
+
+  // Each lazy file is imported once, however many namespaces it serves
+  const pending = new Map<LazyLocaleFile, Promise<LocaleFile>>();
+  const loadFile = (file: LazyLocaleFile): Promise<LocaleFile> => {
+    let promise = pending.get(file);
+    if (!promise) {
+      promise = file.load().then(
+        module => ('default' in module && module.default && typeof module.default === 'object'
+          ? module.default
+          : module) as LocaleFile,
+        error => {
+          // Allow a retry after a failed import
+          pending.delete(file);
+          throw error;
+        }
+      );
+      pending.set(file, promise);
+    }
+    return promise;
+  };
+
+  const namespaces: Record<string, NamespaceLoader> = {};
+  for (const namespace of lazyNamespaces) {
+    namespaces[namespace] = async () => {
+      const parts = await Promise.all(files.map(file => {
+        if (!isLazyFile(file)) {
+          return { [namespace]: file[namespace] };
+        }
+        return file.namespaces.includes(namespace)
+          ? loadFile(file).then(loaded => ({ [namespace]: loaded[namespace] }))
+          : {};
+      }));
+      const defined = parts.filter(part => part[namespace] !== undefined);
+      return mergeLocaleFiles(defined)[namespace];
+    };
+  }
+
+  return { translations: eager, namespaces };
+}
+
+export default createLocaleBundle;
@@ -0,0 +1,160 @@
+/**
+ * Diff-to-Patch Export
+ *
+ * Builds a patch from edited translations instead of hand-written JSON:
+ * the edited copy of each language is compared with the loaded one and
+ * only changed strings in patchable namespaces are kept.
+ */
+
+import { setNestedValue } from './deepMerge';
+import {
+  PatchMetadata,
+  UniversalPatch,
+  ValidationResult,
+  getPatchableNamespaces,
+  validatePatch,
+} from './schema';
+
+/**
+ * Result of exporting edits as a patch
+ */
+export interface PatchExportResult {
+  patch: UniversalPatch;
+  validation: ValidationResult;
+
+  /** Number of changed keys written to the patch */
+  changedKeys: number;
+}
+
+/**
+ * Collects changed string leaves as dot paths
+ * Keys removed in the edited copy cannot be expressed by a patch and are skipped.
+ */
+function collectChanges(
+  base: unknown,
+  edited: unknown,
+  path: string,
+  changes: Map<string, string>,
+  warnings: string[]
+): void {
+  if (typeof edited === 'string') {
+    if (edited !== base) {
+      changes.set(path, edited);
+    }
+    return;
+  }
+
+  if (edited && typeof edited === 'object' && !Array.isArray(edited)) {
+    const baseObj = base && typeof base === 'object' ? base as Record<string, unknown> : {};
+    for (const [key, value] of Object.entries(edited as Record<string, unknown>)) {
+      collectChanges(baseObj[key], value, `${path}.${key}`, changes, warnings);
+    }
+    return;
+  }
+
+  if (edited !== undefined && edited !== null && JSON.stringify(edited) !== JSON.stringify(base)) {
+    warnings.push(`Skipped ${path}: only strings can be patched`);
+  }
+}
+
+/**
+ * Computes the changed strings of one language, restricted to patchable namespaces
+ */
+function diffLanguage(
+  base: Record<string, unknown>,
+  edited: Record<string, unknown>,
+  warnings: string[]
+): Map<string, string> {
+  const changes = new Map<string, string>();
+
+  for (const namespace of getPatchableNamespaces()) {
+    if (edited[namespace] !== undefined) {
+      collectChanges(base[namespace], edited[namespace], namespace, changes, warnings);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Builds a nested object from dot paths
+ */
+function buildSection(changes: Map<string, string>): Record<string, unknown> {
+  let section: Record<string, unknown> = {};
+  for (const [path, value] of changes) {
+    section = setNestedValue(section, path, value);
+  }
+  return section;
+}
+
+/**
+ * Computes the minimal patch content between a loaded and an edited bundle
+ * Only changed strings in patchable namespaces are returned.
+ */
+export function diffTranslations(
+  base: Record<string, unknown>,
+  edited: Record<string, unknown>
+): Record<string, unknown> {
+  return buildSection(diffLanguage(base, edited, []));
+}
+
+/**
+ * Creates a patch from edited translations
+ * `base` and `edited` are keyed by language. Universal content applies to
+ * every language, so a change goes to `universal` only when every language
+ * in `base` (two or more) was edited with the same value; everything else
+ * goes to `languages`.
+ */
+export function createPatchFromEdits(
+  base: Record<string, Record<string, unknown>>,
+  edited: Record<string, Record<string, unknown>>,
+  metadata: PatchMetadata
+): PatchExportResult {
+  const warnings: string[] = [];
+  const diffs = new Map<string, Map<string, string>>();
+
+  for (const [language, translations] of Object.entries(edited)) {
+    diffs.set(language, diffLanguage(base[language] ?? {}, translations, warnings));
+  }
+
+  // Fold changes shared by every bundled language into universal
+  const universal = new Map<string, string>();
+  const [first, ...others] = Array.from(diffs.values());
+  const editsEveryLanguage = Object.keys(base).every(language => diffs.has(language));
+  if (first && others.length > 0 && editsEveryLanguage) {
+    for (const [path, value] of first) {
+      if (others.every(changes => changes.get(path) === value)) {
+        universal.set(path, value);
+      }
+    }
+  }
+
+  const patch: UniversalPatch = { metadata };
+  let changedKeys = universal.size;
+
+  if (universal.size > 0) {
+    patch.universal = buildSection(universal);
+  }
+
+  for (const [language, changes] of diffs) {
+    for (const path of universal.keys()) {
+      changes.delete(path);
+    }
+    if (changes.size > 0) {
+      patch.languages = { ...patch.languages, [language]: buildSection(changes) };
+      changedKeys += changes.size;
+    }
+  }
+
+  if (changedKeys === 0) {
+    patch.universal = {};
+    warnings.push('No patchable changes found');
+  }
+
+  const validation = validatePatch(patch);
+  validation.warnings.push(...warnings);
+
+  return { patch, validation, changedKeys };
+}
+
+export default createPatchFromEdits;
@@ -0,0 +1,412 @@
+/**
+ * Patch Pack Archives
+ *
+ * Large patches can be shipped as a pack: a zip or tar (optionally
+ * gzipped) archive that is assembled into a single UniversalPatch.
+ *
+ * Layout (an optional single top-level folder is allowed):
+ * - manifest.json                   PatchMetadata
+ * - universal.json                  whole universal section, or
+ * - universal/{namespace}.json      one namespace of it
+ * - languages/{lang}.json           whole section for a language, or
+ * - languages/{lang}/{namespace}.json
+ * - assets/...                      listed, not installed
+ *
+ * Each file is validated with validatePatch on its own, so errors
+ * point at the file that caused them.
+ */
+
+import {
+  PatchMetadata,
+  UniversalPatch,
+  ValidationError,
+  ValidationOptions,
+  ValidationResult,
+  validatePatch,
+} from './schema';
+import { isValidLanguageTag, normalizeLanguageTag } from './locale';
+
+/**
+ * Decompresses gzip or raw deflate data
+ * The default implementation uses DecompressionStream (browsers, Node 18+);
+ * provide your own on platforms without it.
+ */
+export type InflateFunction = (data: Uint8Array, format: 'gzip' | 'deflate-raw') => Promise<Uint8Array>;
+
+/**
+ * Options for reading a pack
+ */
+export interface PatchPackOptions extends ValidationOptions {
+  inflate?: InflateFunction;
+}
+
+/**
+ * Result of unpacking a pack
+ */
+export interface PatchPackResult extends ValidationResult {
+  /** Assembled patch (only when valid) */
+  patch?: UniversalPatch;
+
+  /** Content files merged into the patch */
+  files: string[];
+
+  /** Files under assets/ */
+  assets: string[];
+}
+
+/**
+ * Default inflate using DecompressionStream
+ */
+const defaultInflate: InflateFunction = async (data, format) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('DecompressionStream is not available; pass an inflate function');
+  }
+
+  // Copy into a plain ArrayBuffer-backed view (Blob rejects shared buffers)
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads the entries of a zip archive (stored and deflated entries)
+ */
+async function readZip(bytes: Uint8Array, inflate: InflateFunction): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const files = new Map<string, Uint8Array>();
+
+  // End of central directory record (followed by an optional comment)
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid zip archive: end of central directory not found');
+  }
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error(`Zip64 entries are not supported: ${name}`);
+    }
+
+    const dataStart = localOffset + 30
+      + view.getUint16(localOffset + 26, true)
+      + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      files.set(name, await inflate(data, 'deflate-raw'));
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Reads a NUL-terminated string field from a tar header
+ */
+function readTarString(bytes: Uint8Array, start: number, length: number): string {
+  const field = bytes.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? field.subarray(0, end) : field);
+}
+
+/**
+ * Reads the regular files of a tar archive (ustar, with GNU and pax long names)
+ */
+function readTar(bytes: Uint8Array): Map<string, Uint8Array> {
+  const files = new Map<string, Uint8Array>();
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = readTarString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100));
+    const data = bytes.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+    longName = null;
+
+    if (type === 'L') {
+      longName = readTarString(data, 0, data.length);
+    } else if (type === 'x') {
+      const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(new TextDecoder().decode(data));
+      longName = match ? match[1] : null;
+    } else if (type === '0' || type === '7') {
+      files.set(name, data);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Reads the files of a zip, tar or tar.gz archive
+ * Paths are returned relative to the archive root, without a leading './'.
+ */
+export async function readArchive(
+  data: ArrayBuffer | Uint8Array,
+  inflate: InflateFunction = defaultInflate
+): Promise<Map<string, Uint8Array>> {
+  let bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    bytes = await inflate(bytes, 'gzip');
+  }
+
+  let entries: Map<string, Uint8Array>;
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    entries = await readZip(bytes, inflate);
+  } else if (readTarString(bytes, 257, 5) === 'ustar') {
+    entries = readTar(bytes);
+  } else {
+    throw new Error('Unrecognized archive format (expected zip, tar or tar.gz)');
+  }
+
+  const files = new Map<string, Uint8Array>();
+  for (const [name, content] of entries) {
+    files.set(name.replace(/^(\.\/)+/, ''), content);
+  }
+  return files;
+}
+
+/**
+ * Strips a single top-level folder when the manifest is inside it
+ */
+function stripRootFolder(files: Map<string, Uint8Array>): Map<string, Uint8Array> {
+  if (files.has('manifest.json')) {
+    return files;
+  }
+
+  const manifests = Array.from(files.keys()).filter(name => /^[^/]+\/manifest\.json$/.test(name));
+  if (manifests.length !== 1) {
+    return files;
+  }
+
+  const root = manifests[0].slice(0, -'manifest.json'.length);
+  const stripped = new Map<string, Uint8Array>();
+  for (const [name, content] of files) {
+    if (name.startsWith(root)) {
+      stripped.set(name.slice(root.length), content);
+    }
+  }
+  return stripped;
+}
+
+// Names that would reach Object.prototype if used as keys
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Parses a JSON file, recording an error if it is not valid
+ */
+function parseJsonFile(
+  name: string,
+  content: Uint8Array,
+  errors: ValidationError[]
+): unknown {
+  try {
+    return JSON.parse(new TextDecoder().decode(content).replace(/^\uFEFF/, ''));
+  } catch (error) {
+    errors.push({
+      path: name,
+      message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      code: 'INVALID_JSON',
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Unpacks and validates a patch pack
+ * Nothing is installed; pass result.patch to the loader when valid.
+ */
+export async function unpackPatchPack(
+  data: ArrayBuffer | Uint8Array,
+  options: PatchPackOptions = {}
+): Promise<PatchPackResult> {
+  const errors: ValidationError[] = [];
+  const warnings = new Set<string>();
+  const contentFiles: string[] = [];
+  const assets: string[] = [];
+  const fail = (): PatchPackResult => ({
+    valid: false,
+    errors,
+    warnings: Array.from(warnings),
+    files: contentFiles,
+    assets,
+  });
+
+  let files: Map<string, Uint8Array>;
+  try {
+    files = stripRootFolder(await readArchive(data, options.inflate));
+  } catch (error) {
+    errors.push({
+      path: '',
+      message: error instanceof Error ? error.message : String(error),
+      code: 'INVALID_ARCHIVE',
+    });
+    return fail();
+  }
+
+  const manifestFile = files.get('manifest.json');
+  if (!manifestFile) {
+    errors.push({ path: 'manifest.json', message: 'Pack has no manifest.json', code: 'MISSING_MANIFEST' });
+    return fail();
+  }
+
+  const metadata = parseJsonFile('manifest.json', manifestFile, errors) as PatchMetadata;
+  if (errors.length > 0) {
+    return fail();
+  }
+
+  // Metadata errors are reported once, against the manifest
+  const manifestResult = validatePatch({ metadata, universal: {} }, options);
+  for (const error of manifestResult.errors) {
+    errors.push({ ...error, path: `manifest.json:${error.path}` });
+  }
+  manifestResult.warnings.forEach(warning => warnings.add(warning));
+
+  const patch: UniversalPatch = { metadata };
+  const claimed = new Map<string, string>();
+
+  for (const [name, content] of Array.from(files).sort(([a], [b]) => a.localeCompare(b))) {
+    if (name === 'manifest.json') {
+      continue;
+    }
+    if (name.startsWith('assets/')) {
+      assets.push(name);
+      continue;
+    }
+
+    const match = /^(?:universal(?:\/([^/]+))?|languages\/([^/]+?)(?:\/([^/]+))?)\.json$/.exec(name);
+    if (!match) {
+      warnings.add(`Ignored file outside the pack layout: ${name}`);
+      continue;
+    }
+
+    const [, universalNamespace, rawLanguage, languageNamespace] = match;
+    const namespace = universalNamespace ?? languageNamespace;
+    const unsafe = [rawLanguage, namespace].find(segment => segment !== undefined && UNSAFE_KEYS.has(segment));
+    if (unsafe !== undefined) {
+      errors.push({ path: name, message: `Reserved name in pack path: ${unsafe}`, code: 'UNSAFE_PACK_PATH' });
+      continue;
+    }
+
+    const language = rawLanguage === undefined ? undefined : normalizeLanguageTag(rawLanguage);
+    if (language !== undefined && !isValidLanguageTag(language)) {
+      errors.push({
+        path: name,
+        message: `'${rawLanguage}' is not a valid language tag (e.g., 'pt' or 'pt-PT')`,
+        code: 'INVALID_PACK_LANGUAGE',
+      });
+      continue;
+    }
+
+    const value = parseJsonFile(name, content, errors);
+    if (value === undefined) {
+      continue;
+    }
+
+    // Wrap the file as a patch of its own so validatePatch can check it
+    const section = namespace ? { [namespace]: value } : value;
+    const filePatch = language
+      ? { metadata, languages: { [language]: section } }
+      : { metadata, universal: section };
+    const result = validatePatch(filePatch, options);
+
+    for (const error of result.errors) {
+      if (!error.path.startsWith('metadata')) {
+        errors.push({ ...error, path: `${name}:${error.path}` });
+      }
+    }
+    result.warnings.forEach(warning => warnings.add(warning));
+    contentFiles.push(name);
+
+    if (!result.valid || !section || typeof section !== 'object') {
+      continue;
+    }
+
+    // The same namespace must not come from two files
+    // Sections have no prototype, so no key can reach Object.prototype
+    let target: Record<string, unknown>;
+    if (language) {
+      const languages = (patch.languages ??= Object.create(null));
+      target = (languages[language] ??= Object.create(null));
+    } else {
+      target = (patch.universal ??= Object.create(null));
+    }
+    for (const key of Object.keys(section)) {
+      if (UNSAFE_KEYS.has(key)) {
+        errors.push({ path: `${name}:${key}`, message: `Reserved namespace name: ${key}`, code: 'UNSAFE_PACK_PATH' });
+        continue;
+      }
+
+      const scope = `${language ?? 'universal'}.${key}`;
+      const previous = claimed.get(scope);
+      if (previous) {
+        errors.push({
+          path: name,
+          message: `Namespace '${key}' is also defined in ${previous}`,
+          code: 'DUPLICATE_PACK_ENTRY',
+        });
+        continue;
+      }
+      claimed.set(scope, name);
+      target[key] = (section as Record<string, unknown>)[key];
+    }
+  }
+
+  if (errors.length > 0) {
+    return fail();
+  }
+
+  // The assembled patch must still pass as a whole (size, content)
+  const validation = validatePatch(patch, options);
+  validation.warnings.forEach(warning => warnings.add(warning));
+
+  return {
+    valid: validation.valid,
+    errors: validation.errors,
+    warnings: Array.from(warnings),
+    patch: validation.valid ? patch : undefined,
+    files: contentFiles,
+    assets,
+  };
+}
+
+export default unpackPatchPack;
@@ -0,0 +1,80 @@
+/**
+ * CLDR Plural Rules
+ *
+ * Plural categories (zero, one, two, few, many, other) come from
+ * Intl.PluralRules for the active language, so Russian gets
+ * one/few/many, Arabic all six forms and Japanese/Korean only 'other'.
+ * A form missing for a category falls back to 'other'.
+ */
+
+/**
+ * CLDR plural category
+ */
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+export const PLURAL_CATEGORIES: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+// Intl.PluralRules instances per language and type
+const rulesCache = new Map<string, Intl.PluralRules | null>();
+
+/**
+ * Gets (cached) plural rules, or null if Intl.PluralRules is unavailable
+ */
+export function getPluralRules(
+  language: string,
+  type: Intl.PluralRuleType = 'cardinal'
+): Intl.PluralRules | null {
+  const cacheKey = `${language}:${type}`;
+  let rules = rulesCache.get(cacheKey);
+
+  if (rules === undefined) {
+    try {
+      rules = typeof Intl !== 'undefined' && Intl.PluralRules
+        ? new Intl.PluralRules(language, { type })
+        : null;
+    } catch {
+      // Unknown or malformed tag: use the base rules
+      rules = null;
+    }
+    rulesCache.set(cacheKey, rules);
+  }
+
+  return rules;
+}
+
+/**
+ * Gets the plural category of a number in a language
+ * Without Intl.PluralRules, 1 is 'one' and everything else 'other'.
+ */
+export function getPluralCategory(
+  count: number,
+  language: string,
+  type: Intl.PluralRuleType = 'cardinal'
+): PluralCategory {
+  const rules = getPluralRules(language, type);
+  if (rules) {
+    return rules.select(count) as PluralCategory;
+  }
+  return type === 'cardinal' && count === 1 ? 'one' : 'other';
+}
+
+/**
+ * Checks if a string is a plural category
+ */
+export function isPluralCategory(value: string): value is PluralCategory {
+  return (PLURAL_CATEGORIES as string[]).includes(value);
+}
+
+/**
+ * Picks the form for a count, falling back to 'other'
+ */
+export function selectPluralForm(
+  forms: Partial<Record<PluralCategory, string>>,
+  count: number,
+  language: string,
+  type: Intl.PluralRuleType = 'cardinal'
+): string | undefined {
+  return forms[getPluralCategory(count, language, type)] ?? forms.other;
+}
+
+export default getPluralCategory;
@@ -0,0 +1,194 @@
+/**
+ * Remote Manifest & Delta Updates
+ *
+ * The remote layer publishes a manifest.json next to the language
+ * bundles, listing the current version of each one. Clients compare it
+ * with what they have cached and either keep the cache, apply a small
+ * delta, or download the full bundle.
+ *
+ * Layout under remoteBaseUrl:
+ * - manifest.json
+ * - {lang}/content.json
+ * - {lang}/deltas/{from}-{to}.json (optional, listed in the manifest)
+ *
+ * With integrity.publicKey set, manifest.json and every delta need a
+ * detached signature next to them (manifest.json.sig, {delta}.sig).
+ */
+
+import { setNestedValue, deleteNestedValue } from './deepMerge';
+
+/**
+ * Manifest entry for a single language bundle
+ */
+export interface RemoteLanguageEntry {
+  version: string;
+
+  /** SHA-256 hex digest of the bundle JSON */
+  hash?: string;
+
+  /** Bundle size in bytes */
+  size?: number;
+
+  /** Bundle path relative to remoteBaseUrl (default: '{lang}/content.json') */
+  path?: string;
+
+  /** Delta paths relative to remoteBaseUrl, keyed by the version they upgrade from */
+  deltas?: Record<string, string>;
+}
+
+/**
+ * Remote manifest listing every published language bundle
+ */
+export interface RemoteManifest {
+  generatedAt?: string;
+  languages: Record<string, RemoteLanguageEntry>;
+}
+
+/**
+ * Delta between two versions of a language bundle
+ * Keys in `set` and `remove` are dot paths (e.g., 'competitionNames.championsLeague')
+ */
+export interface RemoteDelta {
+  from: string;
+  to: string;
+  set?: Record<string, unknown>;
+  remove?: string[];
+}
+
+/**
+ * HTTP cache validators remembered for conditional requests
+ */
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Checks if a value has the shape of a remote manifest
+ */
+export function isRemoteManifest(value: unknown): value is RemoteManifest {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const languages = (value as Record<string, unknown>).languages;
+  if (!languages || typeof languages !== 'object' || Array.isArray(languages)) {
+    return false;
+  }
+
+  return Object.values(languages).every(entry =>
+    !!entry &&
+    typeof entry === 'object' &&
+    typeof (entry as Record<string, unknown>).version === 'string'
+  );
+}
+
+/**
+ * Checks if a value has the shape of a remote delta
+ */
+export function isRemoteDelta(value: unknown): value is RemoteDelta {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const delta = value as Record<string, unknown>;
+  return (
+    typeof delta.from === 'string' &&
+    typeof delta.to === 'string' &&
+    (delta.set === undefined || (typeof delta.set === 'object' && delta.set !== null && !Array.isArray(delta.set))) &&
+    (delta.remove === undefined || (Array.isArray(delta.remove) && delta.remove.every(p => typeof p === 'string')))
+  );
+}
+
+/**
+ * Applies a delta to a bundle, returning a new object
+ * Removals are applied before sets.
+ */
+export function applyDelta(
+  base: Record<string, unknown>,
+  delta: RemoteDelta
+): Record<string, unknown> {
+  let result = base;
+
+  for (const path of delta.remove ?? []) {
+    result = deleteNestedValue(result, path);
+  }
+
+  for (const [path, value] of Object.entries(delta.set ?? {})) {
+    result = setNestedValue(result, path, value);
+  }
+
+  return result;
+}
+
+/**
+ * Builds If-None-Match / If-Modified-Since headers from stored validators
+ */
+export function buildConditionalHeaders(validators?: HttpValidators | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (validators?.etag) {
+    headers['If-None-Match'] = validators.etag;
+  }
+  if (validators?.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
+
+  return headers;
+}
+
+/**
+ * Reads ETag / Last-Modified from a response
+ */
+export function readValidators(response: Response): HttpValidators {
+  return {
+    etag: response.headers?.get('ETag') ?? undefined,
+    lastModified: response.headers?.get('Last-Modified') ?? undefined,
+  };
+}
+
+/**
+ * One mirror that could not be reached
+ */
+export interface RemoteFetchFailure {
+  /** Base URL of the mirror */
+  mirror: string;
+  url: string;
+  attempts: number;
+  /** Last error seen (e.g., 'timeout after 10000ms', 'HTTP 503: Service Unavailable') */
+  reason: string;
+}
+
+/**
+ * Thrown when a remote request failed on every mirror
+ */
+export class RemoteFetchError extends Error {
+  readonly failures: RemoteFetchFailure[];
+
+  constructor(path: string, failures: RemoteFetchFailure[]) {
+    const details = failures
+      .map(failure => `${failure.mirror} (${failure.attempts} attempts): ${failure.reason}`)
+      .join('; ');
+    super(`Failed to fetch ${path} from all mirrors: ${details}`);
+    this.name = 'RemoteFetchError';
+    this.failures = failures;
+  }
+}
+
+/**
+ * Checks if an HTTP status is worth retrying (server errors and rate limiting)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429 || status === 408;
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between 50% and 100%
+ * of baseDelay * 2^attempt (attempt is 0-based)
+ */
+export function getBackoffDelay(attempt: number, baseDelay: number): number {
+  const delay = baseDelay * 2 ** attempt;
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+export default applyDelta;
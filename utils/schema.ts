@@ -8,6 +8,10 @@
 // Note: In production, install zod: npm install zod
 // For now, we implement a lightweight validation system
 
+import { isValidLanguageTag, normalizeLanguageTag } from './locale';
+import { isValidRange, parseVersion, satisfies } from './semver';
+import { findGenderedPronouns, findOrdinalSuffixes } from './templateLint';
+
 /**
  * Validation error details
  */
@@ -34,10 +38,19 @@ export interface PatchMetadata {
   name: string;
   author?: string;
   description?: string;
+  /** Semver range of supported game versions (e.g., '>=2.3.0 <3.0.0') */
   compatibleGameVersion?: string;
   language?: string;
 }
 
+/**
+ * Options for validatePatch
+ */
+export interface ValidationOptions {
+  /** Running game version; patches whose compatibleGameVersion excludes it are invalid */
+  gameVersion?: string;
+}
+
 /**
  * Universal patch structure
  */
@@ -65,7 +78,8 @@ const PATCHABLE_NAMESPACES = [
   'nationality',
   'continents',
   'tier',
-  'careerTiers'
+  'careerTiers',
+  'inflections'
 ];
 
 /**
@@ -79,7 +93,8 @@ const VERSION_REGEX = /^\d+\.\d+\.\d+(-[\w.]+)?$/;
 function validateMetadata(
   metadata: unknown,
   errors: ValidationError[],
-  warnings: string[]
+  warnings: string[],
+  options: ValidationOptions = {}
 ): boolean {
   if (!metadata || typeof metadata !== 'object') {
     errors.push({
@@ -135,6 +150,27 @@ function validateMetadata(
     }
   }
 
+  // Validate game version compatibility
+  if (meta.compatibleGameVersion !== undefined) {
+    if (typeof meta.compatibleGameVersion !== 'string' || !isValidRange(meta.compatibleGameVersion)) {
+      errors.push({
+        path: 'metadata.compatibleGameVersion',
+        message: 'Compatible game version must be a semver range (e.g., >=2.3.0 <3.0.0)',
+        code: 'INVALID_GAME_VERSION_RANGE'
+      });
+    } else if (options.gameVersion) {
+      if (!parseVersion(options.gameVersion)) {
+        warnings.push(`Game version '${options.gameVersion}' is not semver; compatibility not checked`);
+      } else if (!satisfies(options.gameVersion, meta.compatibleGameVersion)) {
+        errors.push({
+          path: 'metadata.compatibleGameVersion',
+          message: `Patch requires game version ${meta.compatibleGameVersion}, running ${options.gameVersion}`,
+          code: 'INCOMPATIBLE_GAME_VERSION'
+        });
+      }
+    }
+  }
+
   return errors.filter(e => e.path.startsWith('metadata')).length === 0;
 }
 
@@ -145,7 +181,8 @@ function validateContentSection(
   content: unknown,
   path: string,
   errors: ValidationError[],
-  warnings: string[]
+  warnings: string[],
+  language: string
 ): void {
   if (!content || typeof content !== 'object') {
     return;
@@ -177,7 +214,7 @@ function validateContentSection(
     }
 
     // Validate individual keys
-    validateNamespaceContent(values as Record<string, unknown>, namespacePath, errors, warnings);
+    validateNamespaceContent(values as Record<string, unknown>, namespacePath, errors, warnings, language);
   }
 }
 
@@ -188,7 +225,8 @@ function validateNamespaceContent(
   content: Record<string, unknown>,
   basePath: string,
   errors: ValidationError[],
-  warnings: string[]
+  warnings: string[],
+  language: string
 ): void {
   for (const [key, value] of Object.entries(content)) {
     const keyPath = `${basePath}.${key}`;
@@ -204,9 +242,17 @@ function validateNamespaceContent(
           code: 'STRING_TOO_LONG'
         });
       }
+
+      for (const pronoun of new Set(findGenderedPronouns(value, language))) {
+        warnings.push(`Gendered pronoun '${pronoun}' at ${keyPath}; wrap it in {{select:gender|...}} so it agrees with the player`);
+      }
+
+      for (const suffix of new Set(findOrdinalSuffixes(value, language))) {
+        warnings.push(`Hard-coded ordinal suffix '${suffix}' at ${keyPath}; use an ordinal hint such as {n, ordinal}`);
+      }
     } else if (typeof value === 'object' && value !== null) {
       // Recursively validate nested objects
-      validateNamespaceContent(value as Record<string, unknown>, keyPath, errors, warnings);
+      validateNamespaceContent(value as Record<string, unknown>, keyPath, errors, warnings, language);
     } else if (value !== null && value !== undefined) {
       // Other types are not allowed
       errors.push({
@@ -221,7 +267,7 @@ function validateNamespaceContent(
 /**
  * Validates a complete patch object
  */
-export function validatePatch(patch: unknown): ValidationResult {
+export function validatePatch(patch: unknown, options: ValidationOptions = {}): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: string[] = [];
 
@@ -241,7 +287,7 @@ export function validatePatch(patch: unknown): ValidationResult {
   const patchObj = patch as Record<string, unknown>;
 
   // Validate metadata
-  validateMetadata(patchObj.metadata, errors, warnings);
+  validateMetadata(patchObj.metadata, errors, warnings, options);
 
   // Validate universal section
   if (patchObj.universal !== undefined) {
@@ -252,7 +298,8 @@ export function validatePatch(patch: unknown): ValidationResult {
         code: 'INVALID_UNIVERSAL'
       });
     } else {
-      validateContentSection(patchObj.universal, 'universal', errors, warnings);
+      // Universal strings are checked as English, the base language
+      validateContentSection(patchObj.universal, 'universal', errors, warnings, 'en');
     }
   }
 
@@ -266,7 +313,10 @@ export function validatePatch(patch: unknown): ValidationResult {
       });
     } else {
       for (const [lang, content] of Object.entries(patchObj.languages as Record<string, unknown>)) {
-        validateContentSection(content, `languages.${lang}`, errors, warnings);
+        if (!isValidLanguageTag(normalizeLanguageTag(lang))) {
+          warnings.push(`Language code '${lang}' is not a valid tag (e.g., 'pt' or 'pt-PT') and may never be applied`);
+        }
+        validateContentSection(content, `languages.${lang}`, errors, warnings, lang);
       }
     }
   }
@@ -0,0 +1,244 @@
+/**
+ * Minimal Semver Utilities
+ *
+ * Enough of the npm semver range syntax to check a patch's
+ * compatibleGameVersion against the running game version:
+ * - comparators: 2.3.0, =2.3.0, >2.3.0, >=2.3.0, <3.0.0, <=3.0.0
+ * - caret / tilde: ^2.3.0, ~2.3.0
+ * - wildcards: *, 2.x, 2.3.x (also 2, 2.3)
+ * - hyphen ranges: 2.3.0 - 2.9.0
+ * - space-separated comparators (AND) and || (OR)
+ */
+
+/**
+ * Parsed version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([\w.]+))?$/;
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([\w.]+))?$/;
+
+/**
+ * Parses a full version (e.g., '2.3.1' or '2.4.0-beta.1')
+ * Returns null for anything else.
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Compares two prerelease identifier lists (a release sorts after its prereleases)
+ */
+function comparePrerelease(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const aNum = /^\d+$/.test(a[i]);
+    const bNum = /^\d+$/.test(b[i]);
+    if (aNum && bNum) return Number(a[i]) - Number(b[i]);
+    if (aNum) return -1;
+    if (bNum) return 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Compares two versions: negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+/**
+ * Creates a version from numeric parts
+ */
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
+
+/**
+ * Expands a (possibly partial) version with an operator into comparators
+ */
+function expandComparator(operator: string, raw: string): Comparator[] | null {
+  const match = PARTIAL_PATTERN.exec(raw);
+  if (!match) {
+    return null;
+  }
+
+  const isWild = (part?: string) => part === undefined || /^[xX*]$/.test(part);
+  const major = isWild(match[1]) ? null : Number(match[1]);
+  const minor = major === null || isWild(match[2]) ? null : Number(match[2]);
+  const patch = minor === null || isWild(match[3]) ? null : Number(match[3]);
+  const prerelease = match[4] ? match[4].split('.') : [];
+
+  if (major === null) {
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: version(0, 0, 0) }] : [];
+  }
+
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+
+  switch (operator) {
+    case '^': {
+      const upper = major > 0 || minor === null
+        ? version(major + 1, 0, 0)
+        : minor > 0 || patch === null
+          ? version(0, minor + 1, 0)
+          : version(0, 0, patch + 1);
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '~': {
+      const upper = minor === null ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '':
+    case '=': {
+      if (patch !== null) {
+        return [{ operator: '=', version: lower }];
+      }
+      const upper = minor === null ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '>':
+      if (patch !== null) return [{ operator: '>', version: lower }];
+      return [{ operator: '>=', version: minor === null ? version(major + 1, 0, 0) : version(major, minor + 1, 0) }];
+    case '<=':
+      if (patch !== null) return [{ operator: '<=', version: lower }];
+      return [{ operator: '<', version: minor === null ? version(major + 1, 0, 0) : version(major, minor + 1, 0) }];
+    case '>=':
+    case '<':
+      return [{ operator, version: lower }];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a range into OR-groups of AND-ed comparators
+ * Returns null if the range is malformed.
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const groups: Comparator[][] = [];
+
+  for (const part of range.split('||')) {
+    const trimmed = part.trim();
+    const comparators: Comparator[] = [];
+
+    // Hyphen range: 1.2.3 - 2.3.4
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(trimmed);
+    if (hyphen) {
+      const lower = expandComparator('>=', hyphen[1]);
+      const upper = expandComparator('<=', hyphen[2]);
+      if (!lower || !upper) return null;
+      groups.push([...lower, ...upper]);
+      continue;
+    }
+
+    // Allow a space between operator and version (">= 2.3.0")
+    const tokens = trimmed.replace(/(<=|>=|[<>=^~])\s+/g, '$1').split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) {
+      groups.push([]);
+      continue;
+    }
+
+    for (const token of tokens) {
+      const match = /^(<=|>=|[<>=^~]?)(.+)$/.exec(token);
+      const expanded = match ? expandComparator(match[1], match[2]) : null;
+      if (!expanded) return null;
+      comparators.push(...expanded);
+    }
+
+    groups.push(comparators);
+  }
+
+  return groups;
+}
+
+/**
+ * Checks if a string is a valid version range
+ */
+export function isValidRange(range: string): boolean {
+  return typeof range === 'string' && range.trim().length > 0 && parseRange(range) !== null;
+}
+
+/**
+ * Tests a single comparator
+ */
+function testComparator(target: SemVer, comparator: Comparator): boolean {
+  const diff = compareVersions(target, comparator.version);
+
+  switch (comparator.operator) {
+    case '<': return diff < 0;
+    case '<=': return diff <= 0;
+    case '>': return diff > 0;
+    case '>=': return diff >= 0;
+    default: return diff === 0;
+  }
+}
+
+/**
+ * Checks if a version satisfies a range (e.g., satisfies('2.4.1', '>=2.3.0 <3.0.0'))
+ * Prerelease versions only match comparators on the same major.minor.patch,
+ * as in npm semver. Invalid versions or ranges never match.
+ */
+export function satisfies(versionString: string, range: string): boolean {
+  const target = parseVersion(versionString);
+  const groups = parseRange(range);
+
+  if (!target || !groups) {
+    return false;
+  }
+
+  return groups.some(comparators => {
+    if (!comparators.every(comparator => testComparator(target, comparator))) {
+      return false;
+    }
+
+    if (target.prerelease.length === 0) {
+      return true;
+    }
+
+    return comparators.some(({ version: v }) =>
+      v.prerelease.length > 0 &&
+      v.major === target.major &&
+      v.minor === target.minor &&
+      v.patch === target.patch
+    );
+  });
+}
+
+export default satisfies;
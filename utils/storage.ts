@@ -0,0 +1,207 @@
+/**
+ * Storage Adapters & Schema Migrations
+ *
+ * Ready-made StorageAdapter implementations:
+ * - MemoryStorage: in-memory (the loader's default)
+ * - LocalStorageAdapter: window.localStorage, for the web build
+ * - PrefixedStorage: namespaces every key of another adapter
+ * The Node filesystem adapter lives in ./fileStorage so app bundles
+ * never pull in 'fs'.
+ *
+ * Stored data carries a schema version; MigratingStorage runs the
+ * pending migration steps once before any read or write goes through.
+ */
+
+import type { StorageAdapter } from './loader';
+
+/**
+ * In-memory storage
+ */
+export class MemoryStorage implements StorageAdapter {
+  private store = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return Array.from(this.store.keys());
+  }
+}
+
+/**
+ * Minimal Web Storage interface (window.localStorage / sessionStorage)
+ */
+export interface WebStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  readonly length?: number;
+  key?(index: number): string | null;
+}
+
+/**
+ * Storage backed by window.localStorage (or any Web Storage object)
+ * Quota errors from setItem are passed on to the caller.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private readonly storage: WebStorage;
+
+  constructor(storage?: WebStorage) {
+    const resolved = storage ?? (globalThis as { localStorage?: WebStorage }).localStorage;
+    if (!resolved) {
+      throw new Error('localStorage is not available on this platform');
+    }
+    this.storage = resolved;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < (this.storage.length ?? 0); i++) {
+      const key = this.storage.key?.(i);
+      if (key !== null && key !== undefined) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * Prefixes every key before passing it to another adapter
+ * (e.g., to keep a test profile or a second save slot apart)
+ */
+export class PrefixedStorage implements StorageAdapter {
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly prefix: string
+  ) {}
+
+  getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(this.prefix + key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.storage.setItem(this.prefix + key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.storage.removeItem(this.prefix + key);
+  }
+
+  /**
+   * Keys under this prefix, without it (empty when the wrapped adapter cannot list keys)
+   */
+  async getAllKeys(): Promise<string[]> {
+    const keys = (await this.storage.getAllKeys?.()) ?? [];
+    return keys
+      .filter(key => key.startsWith(this.prefix))
+      .map(key => key.slice(this.prefix.length));
+  }
+}
+
+/**
+ * One step of the storage schema
+ * `migrate` upgrades data from version - 1 to version.
+ */
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate(storage: StorageAdapter): Promise<void>;
+}
+
+/**
+ * Runs the migrations newer than the stored schema version, in order
+ * Stops at the first failing step (the version stays at the last
+ * successful one, so the step is retried next time).
+ * Returns the resulting schema version.
+ */
+export async function migrateStorage(
+  storage: StorageAdapter,
+  migrations: StorageMigration[],
+  versionKey: string,
+  onMigrate?: (migration: StorageMigration) => void
+): Promise<number> {
+  const stored = parseInt((await storage.getItem(versionKey)) ?? '0', 10);
+  let current = Number.isFinite(stored) ? stored : 0;
+
+  const pending = migrations
+    .filter(migration => migration.version > current)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    await migration.migrate(storage);
+    current = migration.version;
+    await storage.setItem(versionKey, String(current));
+    onMigrate?.(migration);
+  }
+
+  return current;
+}
+
+/**
+ * Adapter that runs schema migrations before the first operation
+ * Every call waits for the migrations; a failed migration is reported
+ * through onError and the storage stays usable.
+ */
+export class MigratingStorage implements StorageAdapter {
+  readonly ready: Promise<number>;
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    migrations: StorageMigration[],
+    versionKey: string,
+    options: {
+      onMigrate?: (migration: StorageMigration) => void;
+      onError?: (error: unknown) => void;
+    } = {}
+  ) {
+    this.ready = migrateStorage(storage, migrations, versionKey, options.onMigrate)
+      .catch(error => {
+        options.onError?.(error);
+        return -1;
+      });
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    await this.ready;
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.ready;
+    return this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.ready;
+    return this.storage.removeItem(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    await this.ready;
+    return (await this.storage.getAllKeys?.()) ?? [];
+  }
+}
+
+export default MemoryStorage;
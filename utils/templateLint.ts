@@ -0,0 +1,193 @@
+/**
+ * Template Lint
+ *
+ * Static checks for translation templates that the interpolation engine
+ * cannot catch at runtime:
+ * - genderedPronoun: a gendered pronoun outside {{select:gender|...}},
+ *   so the text cannot agree with a female player
+ * - ordinalSuffix: a suffix hard-coded after a numeric placeholder
+ *   ({assists}th reads "21th"); use {assists, ordinal} instead
+ */
+
+import { getNestedValue } from './deepMerge';
+import { ORDINAL_TABLE_KEY } from './format';
+
+/**
+ * Lint rule identifier
+ */
+export type TemplateLintRule = 'genderedPronoun' | 'ordinalSuffix';
+
+/**
+ * Problem found in a template
+ */
+export interface TemplateLintIssue {
+  key: string;
+  rule: TemplateLintRule;
+  /** Offending text (e.g., 'he') */
+  match: string;
+  message: string;
+}
+
+// Gendered pronouns per base language (regex sources, matched case-insensitively)
+const GENDERED_PRONOUNS: Record<string, string[]> = {
+  en: ['he', 'him', 'his', 'himself', 'she', 'her', 'hers', 'herself'],
+  pt: ['ele', 'dele', 'nele', 'ela', 'dela', 'nela'],
+  es: ['él', 'ella'],
+  // Impersonal il (il y a, il faut, ...) is not about anyone; lui is dropped
+  // since the indirect object lui stands for either gender
+  fr: [
+    "il(?!\\s+(?:y\\s+a|n['’]y\\s+a|faut|ne\\s+faut|reste|semble|para[iî]t|s['’]agit|est\\s+temps|vaut\\s+mieux)(?![\\p{L}\\p{M}]))",
+    'elle',
+  ],
+  ru: ['он', 'его', 'ему', 'него', 'нему', 'ним', 'нём', 'она', 'её', 'ее', 'ей', 'неё'],
+  ar: ['هو', 'هي'],
+  ja: ['彼女', '彼(?!ら)'],
+};
+
+// Ordinal suffixes per base language (regex sources). Languages whose
+// marker does not depend on the number (ru '{n}-й', tr '{n}.', id 'ke-{n}',
+// ja, ko) are not listed.
+const ORDINAL_SUFFIXES: Record<string, string[]> = {
+  en: ['th', 'st', 'nd', 'rd'],
+  fr: ['e', 'er', 're', 'ère', 'ème', 'eme'],
+  es: ['\\.?º', '\\.?ª', '°'],
+  pt: ['º', 'ª', '°'],
+};
+
+// Placeholder names that hold counts or positions. Single-letter suffixes
+// (fr 'e') are only reported after these, since '{team}e' can be a word ending.
+const NUMERIC_PLACEHOLDERS = [
+  'n', 'count', 'number', 'position', 'rank', 'place', 'round', 'matchday', 'week',
+  'day', 'season', 'year', 'age', 'goals', 'assists', 'caps', 'appearances', 'edition',
+];
+
+// Languages written without spaces between words
+const UNBOUNDED_LANGUAGES = ['ja'];
+
+// Select blocks are already gender-aware
+const SELECT_PATTERN = /\{\{select:\w+\|(?:[^{}]|\{\w+[^{}]*\})*\}\}/g;
+
+// Compiled pronoun patterns per language
+const pronounPatterns = new Map<string, RegExp | null>();
+
+// Compiled ordinal suffix patterns per language
+const ordinalPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Gets the pronoun pattern for a language, or null if it has no gendered pronouns
+ */
+function getPronounPattern(language: string): RegExp | null {
+  const base = language.split(/[-_]/)[0].toLowerCase();
+  let pattern = pronounPatterns.get(base);
+
+  if (pattern === undefined) {
+    const words = GENDERED_PRONOUNS[base];
+    const alternatives = words ? `(?:${words.join('|')})` : null;
+    pattern = !alternatives
+      ? null
+      : UNBOUNDED_LANGUAGES.includes(base)
+        ? new RegExp(alternatives, 'gu')
+        : new RegExp(`(?<![\\p{L}\\p{M}])${alternatives}(?![\\p{L}\\p{M}])`, 'giu');
+    pronounPatterns.set(base, pattern);
+  }
+
+  return pattern;
+}
+
+/**
+ * Finds gendered pronouns used outside {{select:...}} blocks
+ */
+export function findGenderedPronouns(template: string, language: string): string[] {
+  const pattern = getPronounPattern(language);
+  if (!pattern) {
+    return [];
+  }
+
+  pattern.lastIndex = 0;
+  return Array.from(template.replace(SELECT_PATTERN, '').matchAll(pattern), match => match[0]);
+}
+
+/**
+ * Gets the ordinal suffix pattern for a language, or null if it has none
+ * Matches a placeholder without an ordinal hint followed by a suffix.
+ */
+function getOrdinalPattern(language: string): RegExp | null {
+  const base = language.split(/[-_]/)[0].toLowerCase();
+  let pattern = ordinalPatterns.get(base);
+
+  if (pattern === undefined) {
+    const suffixes = ORDINAL_SUFFIXES[base];
+    const hints = '(?:\\s*,\\s*(?!ordinal\\b)[\\w.-]+)*\\s*\\}';
+    const letters = suffixes?.filter(suffix => /^\p{L}$/u.test(suffix)) ?? [];
+    const others = suffixes?.filter(suffix => !letters.includes(suffix)) ?? [];
+    const names = `(?:${NUMERIC_PLACEHOLDERS.join('|')}|\\w*(?:Count|Number))`;
+    const alternatives = [
+      others.length ? `\\{\\w+${hints}(?:${others.join('|')})` : null,
+      letters.length ? `\\{${names}${hints}(?:${letters.join('|')})` : null,
+    ].filter(Boolean);
+    pattern = alternatives.length
+      ? new RegExp(`(?:${alternatives.join('|')})(?![\\p{L}\\p{M}])`, 'gu')
+      : null;
+    ordinalPatterns.set(base, pattern);
+  }
+
+  return pattern;
+}
+
+/**
+ * Finds numeric placeholders followed by a hard-coded ordinal suffix (e.g., '{assists}th')
+ */
+export function findOrdinalSuffixes(template: string, language: string): string[] {
+  const pattern = getOrdinalPattern(language);
+  if (!pattern) {
+    return [];
+  }
+
+  pattern.lastIndex = 0;
+  return Array.from(template.matchAll(pattern), match => match[0]);
+}
+
+/**
+ * Lints every string in a translations object (or under `root`, e.g. 'media')
+ */
+export function lintTemplates(
+  translations: Record<string, unknown>,
+  language: string,
+  root?: string
+): TemplateLintIssue[] {
+  const issues: TemplateLintIssue[] = [];
+
+  const visit = (value: unknown, key: string): void => {
+    if (typeof value === 'string') {
+      for (const match of new Set(findGenderedPronouns(value, language))) {
+        issues.push({
+          key,
+          rule: 'genderedPronoun',
+          match,
+          message: `Gendered pronoun '${match}' outside {{select:gender|...}}`,
+        });
+      }
+      // The suffix table itself is made of hard-coded suffixes
+      const ordinals = key === ORDINAL_TABLE_KEY || key.startsWith(`${ORDINAL_TABLE_KEY}.`)
+        ? []
+        : findOrdinalSuffixes(value, language);
+      for (const match of new Set(ordinals)) {
+        issues.push({
+          key,
+          rule: 'ordinalSuffix',
+          match,
+          message: `Hard-coded ordinal suffix in '${match}'; use an ordinal hint such as {n, ordinal}`,
+        });
+      }
+    } else if (value && typeof value === 'object') {
+      for (const [child, childValue] of Object.entries(value as Record<string, unknown>)) {
+        visit(childValue, key ? `${key}.${child}` : child);
+      }
+    }
+  };
+
+  visit(root ? getNestedValue(translations, root) : translations, root ?? '');
+  return issues;
+}
+
+export default lintTemplates;
@@ -0,0 +1,161 @@
+/**
+ * Translation Lookup
+ *
+ * Shared building blocks for the loader's t() function: key lookup,
+ * variant selection for numbered entries (e.g., news.assistMilestone.1..20),
+ * plural keys (clubs_one, clubs_few, ...) and the missing-key policy.
+ */
+
+import { getNestedValue } from './deepMerge';
+import { getPluralCategory } from './plurals';
+
+/**
+ * What t() returns when a key cannot be resolved
+ * - 'key': the key itself (default)
+ * - 'empty': an empty string
+ * - 'throw': throws an Error
+ * - callback: its return value
+ */
+export type MissingKeyPolicy =
+  | 'key'
+  | 'empty'
+  | 'throw'
+  | ((key: string, language: string) => string);
+
+/**
+ * Options for t()
+ */
+export interface TranslateOptions {
+  /** Template used when neither the key nor its fallbacks exist */
+  defaultValue?: string;
+
+  /** Keys tried in order when the key is missing */
+  fallbackKeys?: string[];
+
+  /** Variant for numbered entries: 1-based index, or 'random' (default) */
+  variant?: number | 'random';
+
+  /** Count selecting a plural key (key_one, key_few, ...; default: context.count) */
+  count?: number;
+
+  /** Overrides the loader's missing-key policy for this call */
+  missingKeyPolicy?: MissingKeyPolicy;
+}
+
+/**
+ * Bound translate function exposed by the loader
+ */
+export type TranslateFunction = (
+  key: string,
+  context?: Record<string, unknown>,
+  options?: TranslateOptions
+) => string;
+
+/**
+ * Checks if a value is a set of numbered variants ({ "1": "...", "2": "..." })
+ */
+export function isVariantSet(value: unknown): value is Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  return entries.length > 0 && entries.every(
+    ([key, variant]) => /^\d+$/.test(key) && typeof variant === 'string'
+  );
+}
+
+/**
+ * Picks one template from a variant set or array
+ * Numeric variants wrap around, so any counter can be passed.
+ */
+export function pickVariant(
+  variants: Record<string, string> | string[],
+  variant: number | 'random' = 'random'
+): string | undefined {
+  const templates = Array.isArray(variants)
+    ? variants
+    : Object.keys(variants)
+        .sort((a, b) => Number(a) - Number(b))
+        .map(key => variants[key]);
+
+  if (templates.length === 0) {
+    return undefined;
+  }
+
+  const index = variant === 'random'
+    ? Math.floor(Math.random() * templates.length)
+    : ((Math.floor(variant) - 1) % templates.length + templates.length) % templates.length;
+
+  return templates[index];
+}
+
+/**
+ * Looks up the template for a key
+ * Returns undefined when the key is missing or not translatable text.
+ */
+export function lookupTemplate(
+  translations: Record<string, unknown>,
+  key: string,
+  variant?: number | 'random'
+): string | undefined {
+  const value = getNestedValue(translations, key);
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return pickVariant(value as string[], variant);
+  }
+
+  if (isVariantSet(value)) {
+    return pickVariant(value, variant);
+  }
+
+  return undefined;
+}
+
+/**
+ * Picks the plural form of a key for a count: key_{category} for the
+ * language's CLDR category, then key_other, then the legacy key_plural
+ * (bundles written as key / key_plural) unless the category is 'one',
+ * then the key itself
+ */
+export function resolvePluralKey(
+  translations: Record<string, unknown>,
+  key: string,
+  count: number,
+  language: string
+): string {
+  const category = getPluralCategory(count, language);
+  const candidates = [`${key}_${category}`, `${key}_other`];
+  if (category !== 'one') {
+    candidates.push(`${key}_plural`);
+  }
+  return candidates.find(candidate => getNestedValue(translations, candidate) !== undefined) ?? key;
+}
+
+/**
+ * Applies the missing-key policy
+ */
+export function handleMissingKey(
+  key: string,
+  language: string,
+  policy: MissingKeyPolicy = 'key'
+): string {
+  if (typeof policy === 'function') {
+    return policy(key, language);
+  }
+
+  switch (policy) {
+    case 'empty':
+      return '';
+    case 'throw':
+      throw new Error(`Missing translation for key '${key}' (${language})`);
+    default:
+      return key;
+  }
+}
+
+export default lookupTemplate;